@@ -0,0 +1,126 @@
+import { normalizeKeybinding } from './keys';
+import { t } from './l10n';
+import {
+  AutoResolutionDecision,
+  AutoResolutionPlan,
+  ConflictGroup,
+  KeybindingInfo,
+  KeybindingPlatform,
+  KeyboardLayoutId,
+  PriorityRule,
+  ResolutionRules
+} from './types';
+
+/**
+ * Turns the 'rules' setting into resolution actions
+ * A pinned key keeps its command; otherwise the highest ranked extension (or extension + command) wins
+ * and every other binding in the conflict is disabled
+ */
+export class AutoResolver {
+  private rules: ResolutionRules;
+  private pinnedKeys = new Map<string, string>();
+
+  constructor(rules: ResolutionRules, platform: KeybindingPlatform, layoutId: KeyboardLayoutId) {
+    this.rules = rules;
+
+    // Compare pinned keys in the same canonical form as scanned keys
+    for (const pinned of rules.pinnedKeys) {
+      this.pinnedKeys.set(normalizeKeybinding(pinned.key, platform, layoutId), pinned.command);
+    }
+  }
+
+  /**
+   * Decides every conflict the rules cover
+   * Conflicts involving the user's own keybindings are never changed
+   */
+  public plan(conflicts: ConflictGroup[]): AutoResolutionPlan {
+    const decisions: AutoResolutionDecision[] = [];
+    const skipped: AutoResolutionPlan['skipped'] = [];
+
+    for (const conflict of conflicts) {
+      if (conflict.severity === 'none') {
+        continue;
+      }
+
+      if (conflict.bindings.some(b => b.source === 'user')) {
+        skipped.push({ conflict, reason: t('includes your own keybinding') });
+        continue;
+      }
+
+      const decision = this.decide(conflict);
+      if (!('winners' in decision)) {
+        skipped.push({ conflict, reason: decision.reason });
+      } else {
+        decisions.push(decision);
+      }
+    }
+
+    // A binding can lose in more than one conflict (e.g. an exact conflict and prefix shadowing),
+    // and one that a rule keeps somewhere else is never disabled
+    const winners = new Set(decisions.flatMap(d => d.winners).map(bindingId));
+    const losers = new Map<string, KeybindingInfo>();
+    for (const decision of decisions) {
+      for (const binding of decision.losers) {
+        if (!winners.has(bindingId(binding))) {
+          losers.set(bindingId(binding), binding);
+        }
+      }
+    }
+
+    return {
+      actions: losers.size > 0 ? [{ type: 'disable', bindings: Array.from(losers.values()) }] : [],
+      decisions,
+      skipped
+    };
+  }
+
+  private decide(conflict: ConflictGroup): AutoResolutionDecision | { reason: string } {
+    const pinnedCommand = this.pinnedKeys.get(conflict.key);
+    if (pinnedCommand && conflict.bindings.some(b => b.command === pinnedCommand)) {
+      return {
+        conflict,
+        winners: conflict.bindings.filter(b => b.command === pinnedCommand),
+        losers: conflict.bindings.filter(b => b.command !== pinnedCommand),
+        reason: t('{0} is pinned to {1}', conflict.key, pinnedCommand)
+      };
+    }
+
+    const ranks = conflict.bindings.map(binding => this.getRank(binding));
+    const best = Math.min(...ranks);
+    if (best === Infinity) {
+      return { reason: t('no rule applies') };
+    }
+
+    const winners = conflict.bindings.filter((_, i) => ranks[i] === best);
+    const winningExtensions = new Set(winners.map(b => b.extensionId));
+    if (winningExtensions.size > 1) {
+      return { reason: t('tie between {0}', winners.map(b => b.extensionName).join(', ')) };
+    }
+
+    return {
+      conflict,
+      winners,
+      losers: conflict.bindings.filter((_, i) => ranks[i] !== best),
+      reason: t('priority #{0} ({1})', best + 1, describeRule(this.rules.priorities[best]))
+    };
+  }
+
+  /**
+   * Position of the first priority rule matching a binding; earlier rules rank higher
+   */
+  private getRank(binding: KeybindingInfo): number {
+    const index = this.rules.priorities.findIndex(rule =>
+      rule.extension === binding.extensionId &&
+      (!rule.command || rule.command === binding.command)
+    );
+    return index >= 0 ? index : Infinity;
+  }
+}
+
+function bindingId(binding: KeybindingInfo): string {
+  return [binding.extensionId, binding.command, binding.when ?? ''].join('\u0000');
+}
+
+function describeRule(rule: PriorityRule): string {
+  return rule.command ? `${rule.extension} / ${rule.command}` : rule.extension;
+}
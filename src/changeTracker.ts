@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import { getCurrentPlatform } from './platform';
+import { BUILTIN_EXTENSION_ID } from './conflictDetector';
+import { canCompareSnapshots, createSnapshot, diffSnapshots, ExtensionVersion, findNewConflicts } from './snapshot';
+import { ConflictGroup, KeybindingChangeReport, KeybindingInfo, KeybindingSnapshot, KeyboardLayoutId } from './types';
+
+/**
+ * globalState keys for the inventory of the last check and what changed since the one before
+ */
+const SNAPSHOT_STATE_KEY = 'changeTracking.snapshot';
+const REPORT_STATE_KEY = 'changeTracking.lastReport';
+
+/**
+ * Remembers the keybinding inventory across sessions and works out what extension changes did to it
+ * Installs, updates, enables and disables are all noticed, including those made while the editor was closed
+ */
+export class KeybindingChangeTracker {
+  private context: vscode.ExtensionContext;
+  private outputChannel?: vscode.OutputChannel;
+
+  constructor(context: vscode.ExtensionContext, outputChannel?: vscode.OutputChannel) {
+    this.context = context;
+    this.outputChannel = outputChannel;
+  }
+
+  private log(message: string): void {
+    if (this.outputChannel) {
+      this.outputChannel.appendLine(message);
+    }
+  }
+
+  /**
+   * Replaces the stored snapshot with the scanned bindings of this platform
+   * Returns what changed since the stored one, or undefined when nothing did or there was nothing to compare with
+   */
+  public async update(
+    bindings: KeybindingInfo[],
+    conflicts: ConflictGroup[],
+    keyboardLayout: KeyboardLayoutId
+  ): Promise<KeybindingChangeReport | undefined> {
+    const current = createSnapshot(bindings, this.getExtensionVersions(), getCurrentPlatform(), keyboardLayout);
+    const previous = this.context.globalState.get<KeybindingSnapshot>(SNAPSHOT_STATE_KEY);
+    await this.context.globalState.update(SNAPSHOT_STATE_KEY, current);
+
+    if (!previous || !canCompareSnapshots(previous, current)) {
+      this.log(`[Changes] Recorded keybinding snapshot of ${Object.keys(current.extensions).length} extension(s)`);
+      return undefined;
+    }
+
+    const changes = diffSnapshots(previous, current);
+    if (changes.length === 0) {
+      return undefined;
+    }
+
+    const report: KeybindingChangeReport = {
+      timestamp: current.timestamp,
+      previousTimestamp: previous.timestamp,
+      changes,
+      newConflicts: findNewConflicts(previous, conflicts)
+    };
+    await this.context.globalState.update(REPORT_STATE_KEY, report);
+
+    for (const change of changes) {
+      const version = change.kind === 'updated' ? ` ${change.previousVersion} → ${change.version}` : '';
+      this.log(`[Changes] ${change.extensionName} (${change.kind}${version}): ${change.added.length} added, ${change.removed.length} removed, ${change.rekeyed.length} re-keyed`);
+    }
+    this.log(`[Changes] ${report.newConflicts.length} new conflict(s) since ${previous.timestamp}`);
+
+    return report;
+  }
+
+  /**
+   * Gets the changes found by the most recent check that found any
+   */
+  public getLastReport(): KeybindingChangeReport | undefined {
+    return this.context.globalState.get<KeybindingChangeReport>(REPORT_STATE_KEY);
+  }
+
+  private getExtensionVersions(): ExtensionVersion[] {
+    return [
+      { id: BUILTIN_EXTENSION_ID, version: vscode.version },
+      ...vscode.extensions.all.map(extension => ({ id: extension.id, version: String(extension.packageJSON?.version ?? '') }))
+    ];
+  }
+}
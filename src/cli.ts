@@ -0,0 +1,310 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConflictReport, ExtensionManifest, KeybindingInfo, KeyboardLayoutId, ScanTarget } from './types';
+import { ALL_PLATFORMS, getCurrentPlatform, PLATFORM_LABELS, resolveScanTarget } from './platform';
+import { KEYBOARD_LAYOUT_LABELS } from './keyboardLayouts';
+import { DEFAULT_KEYBINDINGS } from './defaultKeybindings';
+import { KeybindingsDocument } from './jsonc';
+import { buildReport, formatReport } from './report';
+import { readExtensionFolder, readExtensionsDirectory, readVsix } from './manifestReader';
+import {
+  BUILTIN_EXTENSION_ID,
+  collectContributedBindings,
+  ConflictDetector,
+  getUserBindings,
+  getUserDisabledCommands
+} from './conflictDetector';
+
+/**
+ * Name the CLI is installed under
+ */
+const CLI_NAME = 'keybinding-conflict-scanner';
+
+/**
+ * Process exit codes
+ */
+const EXIT_OK = 0;
+const EXIT_CONFLICTS = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: ${CLI_NAME} [options] [extension folder or .vsix ...]
+
+Scans VS Code extension manifests for keybinding conflicts, without running the editor.
+Exits with 1 when conflicts are found and 2 on errors.
+
+Options:
+  --extensions-dir <dir>  Scan every extension installed in <dir>; can be repeated
+                          (default: ~/.vscode/extensions when no extensions are given)
+  --vsix <file>           Scan a packaged extension; same as giving the file as an argument
+  --keybindings <file>    Also apply a keybindings.json; it applies to the current platform
+  --platform <target>     current, win, mac, linux or all (default: current)
+  --layout <id>           Keyboard layout the keys are typed on: ${Object.keys(KEYBOARD_LAYOUT_LABELS).join(', ')} (default: us)
+  --format <format>       text or json (default: text)
+  --no-builtin            Leave out VS Code's built-in keybindings
+  --verbose               Print scan details to stderr
+  -h, --help              Show this help
+  -v, --version           Show the version
+`;
+
+type OutputFormat = 'text' | 'json';
+
+interface CliOptions {
+  extensionsDirs: string[];
+  extensionPaths: string[];
+  keybindingsPath?: string;
+  target: ScanTarget;
+  layout: KeyboardLayoutId;
+  format: OutputFormat;
+  includeBuiltin: boolean;
+  verbose: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+/**
+ * Runs the CLI and returns its exit code
+ */
+export function main(args: string[]): number {
+  try {
+    const options = parseArguments(args);
+
+    if (options.help) {
+      process.stdout.write(USAGE);
+      return EXIT_OK;
+    }
+    if (options.version) {
+      process.stdout.write(`${getVersion()}\n`);
+      return EXIT_OK;
+    }
+
+    const report = scan(options);
+    process.stdout.write(options.format === 'json' ? formatReport(report, 'json') : formatText(report));
+    return report.conflicts.length > 0 ? EXIT_CONFLICTS : EXIT_OK;
+  } catch (error) {
+    process.stderr.write(`${CLI_NAME}: ${error instanceof Error ? error.message : error}\n`);
+    return EXIT_ERROR;
+  }
+}
+
+function parseArguments(args: string[]): CliOptions {
+  const options: CliOptions = {
+    extensionsDirs: [],
+    extensionPaths: [],
+    target: 'current',
+    layout: 'us',
+    format: 'text',
+    includeBuiltin: true,
+    verbose: false,
+    help: false,
+    version: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const [name, inlineValue] = args[i].startsWith('--') && args[i].includes('=')
+      ? [args[i].substring(0, args[i].indexOf('=')), args[i].substring(args[i].indexOf('=') + 1)]
+      : [args[i], undefined];
+
+    const value = (): string => {
+      const next = inlineValue ?? args[++i];
+      if (next === undefined || next === '') {
+        throw new Error(`${name} needs a value\n\n${USAGE}`);
+      }
+      return next;
+    };
+
+    switch (name) {
+      case '--extensions-dir':
+        options.extensionsDirs.push(value());
+        break;
+      case '--vsix':
+        options.extensionPaths.push(value());
+        break;
+      case '--keybindings':
+        options.keybindingsPath = value();
+        break;
+      case '--platform':
+        options.target = oneOf(name, value(), ['current', 'all', ...ALL_PLATFORMS]);
+        break;
+      case '--layout':
+        options.layout = oneOf(name, value(), Object.keys(KEYBOARD_LAYOUT_LABELS) as KeyboardLayoutId[]);
+        break;
+      case '--format':
+        options.format = oneOf(name, value(), ['text', 'json']);
+        break;
+      case '--no-builtin':
+        options.includeBuiltin = false;
+        break;
+      case '--verbose':
+        options.verbose = true;
+        break;
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      case '-v':
+      case '--version':
+        options.version = true;
+        break;
+      default:
+        if (name.startsWith('-')) {
+          throw new Error(`Unknown option ${name}\n\n${USAGE}`);
+        }
+        options.extensionPaths.push(name);
+    }
+  }
+
+  return options;
+}
+
+function oneOf<T extends string>(option: string, value: string, allowed: readonly T[]): T {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`${option} must be one of ${allowed.join(', ')} (got "${value}")`);
+  }
+  return value as T;
+}
+
+/**
+ * Reads the extensions and keybindings.json named on the command line and looks for conflicts
+ */
+function scan(options: CliOptions): ConflictReport {
+  const log = options.verbose ? (message: string) => process.stderr.write(`${message}\n`) : undefined;
+  const platforms = resolveScanTarget(options.target);
+  const currentPlatform = getCurrentPlatform();
+
+  const extensions = readExtensions(options);
+  log?.(`[Scanner] Read ${extensions.length} extension manifest(s)`);
+
+  const bindings: KeybindingInfo[] = [];
+  if (options.includeBuiltin) {
+    bindings.push(...collectContributedBindings(
+      DEFAULT_KEYBINDINGS,
+      { extensionId: BUILTIN_EXTENSION_ID, extensionName: 'VS Code', source: 'builtin' },
+      platforms,
+      options.layout
+    ));
+  }
+  for (const extension of extensions) {
+    bindings.push(...collectContributedBindings(
+      extension.keybindings,
+      { extensionId: extension.id, extensionName: extension.name, source: 'extension' },
+      platforms,
+      options.layout
+    ));
+  }
+
+  // Like in the editor, keybindings.json belongs to this machine and only applies to the current platform
+  const userKeybindings = options.keybindingsPath && platforms.includes(currentPlatform)
+    ? readKeybindingsFile(options.keybindingsPath)
+    : [];
+  bindings.push(...getUserBindings(userKeybindings, currentPlatform, options.layout));
+
+  const conflicts = new ConflictDetector({ log }).findConflicts(
+    bindings,
+    platforms,
+    getUserDisabledCommands(userKeybindings, currentPlatform, options.layout)
+  );
+
+  const extensionIds = new Set(bindings.filter(b => b.source === 'extension').map(b => b.extensionId));
+  return buildReport(conflicts, bindings, {
+    editor: { name: CLI_NAME, version: getVersion() },
+    platform: currentPlatform,
+    scanTarget: options.target,
+    scannedPlatforms: platforms,
+    keyboardLayout: options.layout,
+    extensions: extensions
+      .filter(ext => extensionIds.has(ext.id))
+      .map(ext => ({ id: ext.id, name: ext.name, version: ext.version }))
+  });
+}
+
+/**
+ * Reads the extensions to scan; an extension given by path replaces the same extension found in a directory
+ */
+function readExtensions(options: CliOptions): ExtensionManifest[] {
+  const directories = options.extensionsDirs.length === 0 && options.extensionPaths.length === 0
+    ? [path.join(os.homedir(), '.vscode', 'extensions')]
+    : options.extensionsDirs;
+
+  const extensions = new Map<string, ExtensionManifest>();
+  for (const directory of directories) {
+    const manifests = readExtensionsDirectory(directory, message => process.stderr.write(`${CLI_NAME}: ${message}\n`));
+    for (const manifest of manifests) {
+      extensions.set(manifest.id.toLowerCase(), manifest);
+    }
+  }
+
+  for (const extensionPath of options.extensionPaths) {
+    if (!fs.existsSync(extensionPath)) {
+      throw new Error(`Not found: ${extensionPath}`);
+    }
+
+    const manifest = fs.statSync(extensionPath).isDirectory()
+      ? readExtensionFolder(extensionPath)
+      : readVsix(extensionPath);
+    if (!manifest) {
+      throw new Error(`${extensionPath} has no package.json`);
+    }
+    extensions.set(manifest.id.toLowerCase(), manifest);
+  }
+
+  return Array.from(extensions.values());
+}
+
+function readKeybindingsFile(file: string): any[] {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Keybindings file not found: ${file}`);
+  }
+
+  try {
+    return new KeybindingsDocument(fs.readFileSync(file, 'utf8')).entries;
+  } catch (error) {
+    throw new Error(`${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Plain-text listing of the conflicts in a report
+ */
+function formatText(report: ConflictReport): string {
+  const { metadata, summary } = report;
+  const showPlatform = metadata.scannedPlatforms.length > 1;
+  const lines: string[] = [];
+
+  lines.push(`Scanned ${summary.keybindings} keybindings from ${metadata.extensions.length} extension(s) for ${metadata.scannedPlatforms.map(p => PLATFORM_LABELS[p]).join(', ')}`);
+  lines.push('');
+
+  for (const conflict of report.conflicts) {
+    const platform = showPlatform ? ` (${PLATFORM_LABELS[conflict.platform]})` : '';
+    const kind = conflict.kind === 'prefix' ? 'prefix shadowing' : 'conflict';
+    lines.push(`#${conflict.id} ${conflict.key}${platform}: ${conflict.severity} ${kind}`);
+
+    for (const binding of conflict.bindings) {
+      const key = conflict.kind === 'prefix' ? ` [${binding.key}]` : '';
+      const when = binding.when ? ` when ${binding.when}` : '';
+      lines.push(`    ${binding.command} (${binding.extensionName})${key}${when}`);
+    }
+    lines.push('');
+  }
+
+  if (summary.conflicts === 0) {
+    lines.push('No conflicts found.');
+  } else {
+    lines.push(`Found ${summary.conflicts} conflict(s): ${summary.definite} definite, ${summary.possible} possible, ${summary.prefixShadowing} prefix shadowing`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function getVersion(): string {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')).version;
+  } catch {
+    return 'unknown';
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
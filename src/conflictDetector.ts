@@ -0,0 +1,387 @@
+import { ConflictGroup, ConflictSeverity, KeybindingContribution, KeybindingInfo, KeybindingPlatform, KeyboardLayoutId } from './types';
+import { WhenClauseAnalyzer } from './whenClause';
+import { PLATFORM_LABELS } from './platform';
+import { normalizeKeybinding } from './keys';
+import { t } from './l10n';
+
+/**
+ * Synthetic extension ID used for VS Code's built-in keybindings
+ */
+export const BUILTIN_EXTENSION_ID = 'vscode.core';
+
+/**
+ * Synthetic extension ID used for bindings from the user's keybindings.json
+ */
+export const USER_EXTENSION_ID = 'user';
+
+/**
+ * Conflicts and extensions the user chose not to see
+ */
+export interface ConflictFilter {
+  isExtensionIgnored(extensionId: string): boolean;
+  isConflictIgnored(group: ConflictGroup): boolean;
+}
+
+/**
+ * Who contributed a set of keybindings
+ */
+export interface KeybindingOwner {
+  extensionId: string;
+  extensionName: string;
+  source: KeybindingInfo['source'];
+}
+
+/**
+ * What the user's keybindings.json disables, and the platform the file belongs to
+ * 'commands' lose every key; 'removedKeys' holds the key and command of each '-command' entry that removes a single key
+ */
+export interface UserDisabledCommands {
+  platform: KeybindingPlatform;
+  commands: Set<string>;
+  removedKeys: Set<string>;
+}
+
+/**
+ * Finds keybinding conflicts between extensions
+ * Works on plain binding lists, so it runs both inside the editor and from the command line
+ */
+export class ConflictDetector {
+  private whenAnalyzer = new WhenClauseAnalyzer();
+  private filter?: ConflictFilter;
+  private logger?: (message: string) => void;
+
+  constructor(options: { filter?: ConflictFilter; log?: (message: string) => void } = {}) {
+    this.filter = options.filter;
+    this.logger = options.log;
+  }
+
+  private log(message: string): void {
+    this.logger?.(message);
+  }
+
+  /**
+   * Finds the conflicts on each platform
+   * Bindings disabled in keybindings.json are only left out on the platform the file belongs to
+   */
+  public findConflicts(
+    bindings: KeybindingInfo[],
+    platforms: KeybindingPlatform[],
+    userDisabledCommands?: UserDisabledCommands
+  ): ConflictGroup[] {
+    const conflicts: ConflictGroup[] = [];
+
+    for (const platform of platforms) {
+      conflicts.push(...this.findPlatformConflicts(
+        bindings.filter(b => b.platform === platform && !isDisabledByUser(b, userDisabledCommands)),
+        platform
+      ));
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Groups keybindings by key and filters for conflicts
+   * Only considers it a conflict if different extensions use the same key
+   * Same extension with different 'when' clauses is NOT a conflict
+   * Each group is labelled with a severity based on its 'when' clauses
+   */
+  private findPlatformConflicts(
+    bindings: KeybindingInfo[],
+    platform: KeybindingPlatform
+  ): ConflictGroup[] {
+    // Group by key
+    const groupedByKey = new Map<string, KeybindingInfo[]>();
+
+    for (const binding of bindings) {
+      // Skip extensions whose conflicts the user chose to ignore
+      if (this.filter?.isExtensionIgnored(binding.extensionId)) {
+        continue;
+      }
+
+      const key = binding.key;
+      if (!groupedByKey.has(key)) {
+        groupedByKey.set(key, []);
+      }
+      groupedByKey.get(key)!.push(binding);
+    }
+
+    // Filter groups with actual conflicts
+    const conflicts: ConflictGroup[] = [];
+
+    for (const [key, bindingsForKey] of groupedByKey.entries()) {
+      if (bindingsForKey.length > 1) {
+        // Check if there are multiple different extensions
+        const extensionIds = new Set(bindingsForKey.map(b => b.extensionId));
+
+        // Only report as conflict if multiple extensions are involved
+        if (extensionIds.size > 1) {
+          const severity = this.getConflictSeverity(bindingsForKey);
+          if (severity === 'none') {
+            this.log(`[Scanner] Key "${key}" is shared by ${extensionIds.size} extensions, but their 'when' clauses never overlap`);
+          }
+
+          conflicts.push({
+            key,
+            bindings: bindingsForKey,
+            severity,
+            kind: 'exact',
+            platform
+          });
+        } else {
+          // Same extension, different 'when' clauses - not a conflict
+          this.log(`[Scanner] Skipping same-extension bindings for key "${key}" (${bindingsForKey[0].extensionName}, ${bindingsForKey.length} variants with different 'when' clauses)`);
+        }
+      }
+    }
+
+    conflicts.push(...this.findPrefixShadowing(groupedByKey, platform));
+
+    // Drop conflicts the user acknowledged
+    const reported = conflicts.filter(c => !this.filter?.isConflictIgnored(c));
+    if (reported.length < conflicts.length) {
+      this.log(`[Scanner] Ignored ${conflicts.length - reported.length} acknowledged conflict(s) on ${PLATFORM_LABELS[platform]}`);
+    }
+
+    // Sort by key for consistent display
+    reported.sort((a, b) => a.key.localeCompare(b.key));
+
+    return reported;
+  }
+
+  /**
+   * Finds single keys that equal the first chord of another extension's chord binding
+   * e.g. "ctrl+k" in one extension shadows "ctrl+k ctrl+s" in another
+   */
+  private findPrefixShadowing(groupedByKey: Map<string, KeybindingInfo[]>, platform: KeybindingPlatform): ConflictGroup[] {
+    const conflicts: ConflictGroup[] = [];
+    const chordsByPrefix = new Map<string, KeybindingInfo[]>();
+
+    for (const [key, bindingsForKey] of groupedByKey.entries()) {
+      if (!key.includes(' ')) {
+        continue;
+      }
+
+      const prefix = key.split(' ')[0];
+      if (!chordsByPrefix.has(prefix)) {
+        chordsByPrefix.set(prefix, []);
+      }
+      chordsByPrefix.get(prefix)!.push(...bindingsForKey);
+    }
+
+    for (const [prefix, chords] of chordsByPrefix.entries()) {
+      const singles = groupedByKey.get(prefix);
+      if (!singles) {
+        continue;
+      }
+
+      // Only bindings that clash with another extension are part of the group
+      const shadowingSingles = singles.filter(s => chords.some(c => c.extensionId !== s.extensionId));
+      const shadowedChords = chords.filter(c => singles.some(s => s.extensionId !== c.extensionId));
+
+      if (shadowingSingles.length === 0) {
+        continue;
+      }
+
+      const severity = this.getPrefixSeverity(shadowingSingles, shadowedChords);
+      if (severity === 'none') {
+        this.log(`[Scanner] Key "${prefix}" prefixes chords of other extensions, but their 'when' clauses never overlap`);
+      }
+
+      conflicts.push({
+        key: prefix,
+        bindings: [...shadowingSingles, ...shadowedChords],
+        severity,
+        kind: 'prefix',
+        platform
+      });
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Determines the strongest clash between bindings of different extensions
+   * Equivalent 'when' clauses are a definite conflict, overlapping ones a possible conflict
+   */
+  private getConflictSeverity(bindings: KeybindingInfo[]): ConflictSeverity {
+    let severity: ConflictSeverity = 'none';
+
+    for (let i = 0; i < bindings.length; i++) {
+      for (let j = i + 1; j < bindings.length; j++) {
+        const a = bindings[i];
+        const b = bindings[j];
+
+        if (a.extensionId === b.extensionId) {
+          continue;
+        }
+
+        severity = this.strongerSeverity(severity, this.getPairSeverity(a, b));
+        if (severity === 'definite') {
+          return severity;
+        }
+      }
+    }
+
+    return severity;
+  }
+
+  /**
+   * Determines the strongest clash between single keys and the chords they shadow
+   */
+  private getPrefixSeverity(singles: KeybindingInfo[], chords: KeybindingInfo[]): ConflictSeverity {
+    let severity: ConflictSeverity = 'none';
+
+    for (const single of singles) {
+      for (const chord of chords) {
+        if (single.extensionId === chord.extensionId) {
+          continue;
+        }
+
+        severity = this.strongerSeverity(severity, this.getPairSeverity(single, chord));
+        if (severity === 'definite') {
+          return severity;
+        }
+      }
+    }
+
+    return severity;
+  }
+
+  /**
+   * Compares the 'when' clauses of two bindings
+   */
+  private getPairSeverity(a: KeybindingInfo, b: KeybindingInfo): ConflictSeverity {
+    if (this.whenAnalyzer.isEquivalent(a.when, b.when)) {
+      return 'definite';
+    }
+    return this.whenAnalyzer.canOverlap(a.when, b.when) ? 'possible' : 'none';
+  }
+
+  private strongerSeverity(a: ConflictSeverity, b: ConflictSeverity): ConflictSeverity {
+    const order: ConflictSeverity[] = ['none', 'possible', 'definite'];
+    return order.indexOf(a) >= order.indexOf(b) ? a : b;
+  }
+}
+
+/**
+ * Turns keybinding contributions (an extension's manifest or VS Code's defaults) into bindings per platform
+ */
+export function collectContributedBindings(
+  contributions: KeybindingContribution[],
+  owner: KeybindingOwner,
+  platforms: KeybindingPlatform[],
+  layoutId: KeyboardLayoutId
+): KeybindingInfo[] {
+  const bindings: KeybindingInfo[] = [];
+
+  for (const kb of contributions) {
+    if (!kb?.command || kb.command.startsWith('-')) {
+      continue;
+    }
+
+    for (const platform of platforms) {
+      for (const key of getPlatformKeys(kb, platform)) {
+        bindings.push({
+          key: normalizeKeybinding(key, platform, layoutId),
+          command: kb.command,
+          when: kb.when,
+          ...owner,
+          platform
+        });
+      }
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Determines which keys a contribution uses on the given platform
+ * Priority: platform-specific > general key
+ */
+export function getPlatformKeys(kb: KeybindingContribution, platform: KeybindingPlatform): string[] {
+  // Fallback to general key if no platform-specific key
+  const keys = kb[platform] || kb.key;
+
+  if (!keys) {
+    return [];
+  }
+
+  return (Array.isArray(keys) ? keys : [keys]).filter(k => k);
+}
+
+/**
+ * Converts the bindings the user added in keybindings.json into conflict participants
+ */
+export function getUserBindings(
+  userKeybindings: KeybindingContribution[],
+  platform: KeybindingPlatform,
+  layoutId: KeyboardLayoutId
+): KeybindingInfo[] {
+  const bindings: KeybindingInfo[] = [];
+
+  for (const kb of userKeybindings) {
+    if (!kb.command || kb.command.startsWith('-') || typeof kb.key !== 'string' || !kb.key.trim()) {
+      continue;
+    }
+
+    bindings.push({
+      key: normalizeKeybinding(kb.key, platform, layoutId),
+      command: kb.command,
+      when: kb.when,
+      extensionId: USER_EXTENSION_ID,
+      extensionName: t('User keybinding'),
+      source: 'user',
+      platform
+    });
+  }
+
+  return bindings;
+}
+
+/**
+ * Gets what keybindings.json disables
+ * A '-command' entry with a key removes only that key; one without a key, or an entry with an empty key,
+ * disables every key of the command
+ */
+export function getUserDisabledCommands(
+  userKeybindings: KeybindingContribution[],
+  platform: KeybindingPlatform,
+  layoutId: KeyboardLayoutId
+): UserDisabledCommands {
+  const disabled: UserDisabledCommands = { platform, commands: new Set(), removedKeys: new Set() };
+
+  for (const kb of userKeybindings) {
+    if (typeof kb?.command !== 'string' || !kb.command) {
+      continue;
+    }
+
+    if (kb.command.startsWith('-')) {
+      const command = kb.command.substring(1);
+      if (typeof kb.key === 'string' && kb.key.trim()) {
+        disabled.removedKeys.add(getRemovedKeyId(normalizeKeybinding(kb.key, platform, layoutId), command));
+      } else {
+        disabled.commands.add(command);
+      }
+    } else if (!kb.key) {
+      disabled.commands.add(kb.command);
+    }
+  }
+
+  return disabled;
+}
+
+/**
+ * Checks whether keybindings.json disables a built-in or extension binding
+ * The user's own bindings stay in effect, and the file only applies to its own platform
+ */
+export function isDisabledByUser(binding: KeybindingInfo, disabled?: UserDisabledCommands): boolean {
+  return binding.source !== 'user' &&
+    binding.platform === disabled?.platform &&
+    (disabled.commands.has(binding.command) || disabled.removedKeys.has(getRemovedKeyId(binding.key, binding.command)));
+}
+
+function getRemovedKeyId(key: string, command: string): string {
+  return `${key}\u0000${command}`;
+}
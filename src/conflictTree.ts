@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import { getCurrentPlatform, PLATFORM_LABELS } from './platform';
+import { describePolicyViolation, describeSeverity } from './presenter';
+import { ConflictGroup, ConflictTreeGrouping, ConflictTreeNode, KeybindingInfo, PolicyViolation, ScanResults, ScanTarget } from './types';
+
+/**
+ * globalState keys for what the view keeps across reloads
+ */
+const RESULTS_STATE_KEY = 'conflictView.lastScan';
+const GROUPING_STATE_KEY = 'conflictView.grouping';
+
+/**
+ * Lists the conflicts of the last scan in the 'Keybinding Conflicts' sidebar view
+ * Conflicts are grouped by key or by extension; results are kept across reloads
+ * Team keybinding policy violations are listed above the conflicts
+ */
+export class ConflictTreeProvider implements vscode.TreeDataProvider<ConflictTreeNode>, vscode.Disposable {
+  private context: vscode.ExtensionContext;
+  private results?: ScanResults;
+  private allBindings: KeybindingInfo[] = [];
+  private grouping: ConflictTreeGrouping;
+  private readonly changeEmitter = new vscode.EventEmitter<ConflictTreeNode | undefined>();
+
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+    this.results = context.globalState.get<ScanResults>(RESULTS_STATE_KEY);
+    this.grouping = context.globalState.get<ConflictTreeGrouping>(GROUPING_STATE_KEY, 'key');
+    this.updateContextKeys();
+  }
+
+  /**
+   * Replaces the shown conflicts with the results of a new scan
+   */
+  public async update(
+    conflicts: ConflictGroup[],
+    allBindings: KeybindingInfo[],
+    target: ScanTarget,
+    violations: PolicyViolation[] = []
+  ): Promise<void> {
+    this.results = {
+      // Bindings whose 'when' clauses never overlap can't clash, so hide them
+      conflicts: conflicts.filter(c => c.severity !== 'none'),
+      violations,
+      target,
+      timestamp: new Date().toISOString()
+    };
+    this.allBindings = allBindings;
+
+    await this.context.globalState.update(RESULTS_STATE_KEY, this.results);
+    this.updateContextKeys();
+    this.changeEmitter.fire(undefined);
+  }
+
+  /**
+   * Gets the results currently shown, if any scan has run
+   */
+  public getResults(): ScanResults | undefined {
+    return this.results;
+  }
+
+  /**
+   * Gets all bindings of the last scan in this session
+   * Empty when the results were restored from a previous session
+   */
+  public getAllBindings(): KeybindingInfo[] {
+    return this.allBindings;
+  }
+
+  /**
+   * Switches between grouping by key and by extension
+   */
+  public async setGrouping(grouping: ConflictTreeGrouping): Promise<void> {
+    this.grouping = grouping;
+    await this.context.globalState.update(GROUPING_STATE_KEY, grouping);
+    this.updateContextKeys();
+    this.changeEmitter.fire(undefined);
+  }
+
+  public getTreeItem(node: ConflictTreeNode): vscode.TreeItem {
+    if (node.type === 'conflict') {
+      return this.getConflictItem(node.group);
+    }
+
+    if (node.type === 'policy') {
+      const item = new vscode.TreeItem(vscode.l10n.t('Team Keybinding Policy'), vscode.TreeItemCollapsibleState.Expanded);
+      item.description = vscode.l10n.t('{0} violation(s)', node.violations.length);
+      item.iconPath = new vscode.ThemeIcon('law');
+      item.contextValue = 'policy';
+      return item;
+    }
+
+    if (node.type === 'violation') {
+      const item = new vscode.TreeItem(describePolicyViolation(node.violation));
+      item.tooltip = node.violation.kind === 'missing'
+        ? vscode.l10n.t('Fix adds {0} → {1} to keybindings.json', node.violation.key, node.violation.command ?? '')
+        : vscode.l10n.t('Fix disables: {0}', node.violation.bindings.map(b => `${b.command} (${b.extensionName})`).join(', '));
+      item.iconPath = new vscode.ThemeIcon('error');
+      item.contextValue = 'violation';
+      return item;
+    }
+
+    if (node.type === 'extension') {
+      const item = new vscode.TreeItem(node.extensionName, vscode.TreeItemCollapsibleState.Expanded);
+      item.description = vscode.l10n.t('{0} conflicting keybinding(s)', node.entries.length);
+      item.tooltip = node.extensionId;
+      item.iconPath = new vscode.ThemeIcon('extensions');
+      item.contextValue = 'extension';
+      return item;
+    }
+
+    return this.getBindingItem(node.binding, node.group);
+  }
+
+  public getChildren(node?: ConflictTreeNode): ConflictTreeNode[] {
+    if (!this.results) {
+      return [];
+    }
+
+    if (!node) {
+      const violations = this.results.violations ?? [];
+      return [
+        ...(violations.length > 0 ? [{ type: 'policy', violations } as ConflictTreeNode] : []),
+        ...(this.grouping === 'key' ? this.getKeyNodes() : this.getExtensionNodes())
+      ];
+    }
+
+    if (node.type === 'policy') {
+      return node.violations.map(violation => ({ type: 'violation', violation }));
+    }
+
+    if (node.type === 'conflict') {
+      return node.group.bindings.map(binding => ({ type: 'binding', binding, group: node.group }));
+    }
+
+    if (node.type === 'extension') {
+      return node.entries.map(entry => ({ type: 'binding', ...entry }));
+    }
+
+    return [];
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  /**
+   * Exact conflicts first, then prefix shadowing
+   */
+  private getKeyNodes(): ConflictTreeNode[] {
+    const conflicts = this.results?.conflicts ?? [];
+    return [
+      ...conflicts.filter(c => c.kind === 'exact'),
+      ...conflicts.filter(c => c.kind === 'prefix')
+    ].map(group => ({ type: 'conflict', group }));
+  }
+
+  /**
+   * One node per extension, listing each of its bindings that takes part in a conflict
+   */
+  private getExtensionNodes(): ConflictTreeNode[] {
+    const nodes = new Map<string, Extract<ConflictTreeNode, { type: 'extension' }>>();
+
+    for (const group of this.results?.conflicts ?? []) {
+      for (const binding of group.bindings) {
+        let node = nodes.get(binding.extensionId);
+        if (!node) {
+          node = {
+            type: 'extension',
+            extensionId: binding.extensionId,
+            extensionName: binding.extensionName,
+            entries: []
+          };
+          nodes.set(binding.extensionId, node);
+        }
+        node.entries.push({ binding, group });
+      }
+    }
+
+    return Array.from(nodes.values()).sort((a, b) => a.extensionName.localeCompare(b.extensionName));
+  }
+
+  private getConflictItem(group: ConflictGroup): vscode.TreeItem {
+    const item = new vscode.TreeItem(`${group.key}${this.getPlatformSuffix(group)}`, vscode.TreeItemCollapsibleState.Expanded);
+
+    if (group.kind === 'prefix') {
+      const chordCount = group.bindings.filter(b => b.key !== group.key).length;
+      item.description = vscode.l10n.t('shadows {0} chord(s) · {1}', chordCount, describeSeverity(group.severity));
+    } else {
+      item.description = vscode.l10n.t('{0} conflict(s) · {1}', group.bindings.length, describeSeverity(group.severity));
+    }
+
+    item.iconPath = new vscode.ThemeIcon(group.severity === 'definite' ? 'error' : 'warning');
+    item.contextValue = 'conflict';
+    return item;
+  }
+
+  private getBindingItem(binding: KeybindingInfo, group: ConflictGroup): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      this.grouping === 'key' ? binding.command : `${binding.key}${this.getPlatformSuffix(group)}`
+    );
+
+    if (this.grouping === 'key') {
+      // Show the full key for prefix shadowing, so single keys and chords can be told apart
+      item.description = group.kind === 'prefix' ? `${binding.extensionName} · ${binding.key}` : binding.extensionName;
+    } else {
+      item.description = binding.command;
+    }
+
+    const others = group.bindings.filter(b => b !== binding);
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${binding.command}**\n\n`);
+    tooltip.appendMarkdown(`${vscode.l10n.t('Key: {0} ({1})', `\`${binding.key}\``, PLATFORM_LABELS[binding.platform])}\n\n`);
+    tooltip.appendMarkdown(`${vscode.l10n.t('From: {0}', binding.extensionName)}\n\n`);
+    if (binding.when) {
+      tooltip.appendMarkdown(`${vscode.l10n.t('When: {0}', `\`${binding.when}\``)}\n\n`);
+    }
+    tooltip.appendMarkdown(vscode.l10n.t('Conflicts with: {0}', others.map(b => `${b.command} (${b.extensionName})`).join(', ')));
+    item.tooltip = tooltip;
+
+    // keybindings.json only affects this machine, so bindings of other platforms are review-only
+    item.contextValue = binding.platform === getCurrentPlatform() ? 'binding' : 'binding.otherPlatform';
+    return item;
+  }
+
+  /**
+   * Labels a conflict with its platform when the results aren't just for this machine
+   */
+  private getPlatformSuffix(group: ConflictGroup): string {
+    const currentPlatform = getCurrentPlatform();
+    const showPlatform = this.results?.conflicts.some(c => c.platform !== currentPlatform);
+    return showPlatform ? ` · ${PLATFORM_LABELS[group.platform]}` : '';
+  }
+
+  /**
+   * Context keys used by the view's menus and welcome content
+   */
+  private updateContextKeys(): void {
+    vscode.commands.executeCommand('setContext', 'keybindingConflictScanner.conflictView.groupBy', this.grouping);
+    vscode.commands.executeCommand('setContext', 'keybindingConflictScanner.conflictView.scanned', this.results !== undefined);
+  }
+}
@@ -0,0 +1,142 @@
+import { KeybindingContribution } from './types';
+
+/**
+ * Snapshot of VS Code's most commonly used built-in keybindings
+ * Used when the default keybindings document can't be read from the running editor
+ * Follows the package.json format: 'key' applies to Windows, 'mac'/'linux' override it
+ */
+export const DEFAULT_KEYBINDINGS: KeybindingContribution[] = [
+  // Workbench
+  { key: 'ctrl+p', mac: 'cmd+p', command: 'workbench.action.quickOpen' },
+  { key: 'ctrl+shift+p', mac: 'cmd+shift+p', command: 'workbench.action.showCommands' },
+  { key: 'f1', command: 'workbench.action.showCommands' },
+  { key: 'ctrl+q', command: 'workbench.action.quickOpenView' },
+  { key: 'ctrl+r', command: 'workbench.action.openRecent' },
+  { key: 'ctrl+shift+n', mac: 'cmd+shift+n', command: 'workbench.action.newWindow' },
+  { key: 'alt+f4', mac: 'cmd+shift+w', linux: 'ctrl+shift+w', command: 'workbench.action.closeWindow' },
+  { key: 'ctrl+,', mac: 'cmd+,', command: 'workbench.action.openSettings' },
+  { key: 'ctrl+k ctrl+s', mac: 'cmd+k cmd+s', command: 'workbench.action.openGlobalKeybindings' },
+  { key: 'ctrl+k ctrl+t', mac: 'cmd+k cmd+t', command: 'workbench.action.selectTheme' },
+  { key: 'ctrl+k z', mac: 'cmd+k z', command: 'workbench.action.toggleZenMode' },
+  { key: 'f11', mac: 'ctrl+cmd+f', command: 'workbench.action.toggleFullScreen' },
+  { key: 'ctrl+=', mac: 'cmd+=', command: 'workbench.action.zoomIn' },
+  { key: 'ctrl+-', mac: 'cmd+-', command: 'workbench.action.zoomOut' },
+  { key: 'ctrl+b', mac: 'cmd+b', command: 'workbench.action.toggleSidebarVisibility' },
+  { key: 'ctrl+alt+b', mac: 'alt+cmd+b', command: 'workbench.action.toggleAuxiliaryBar' },
+  { key: 'ctrl+j', mac: 'cmd+j', command: 'workbench.action.togglePanel' },
+  { key: 'ctrl+shift+e', mac: 'cmd+shift+e', command: 'workbench.view.explorer' },
+  { key: 'ctrl+shift+f', mac: 'cmd+shift+f', command: 'workbench.action.findInFiles' },
+  { key: 'ctrl+shift+h', mac: 'cmd+shift+h', command: 'workbench.action.replaceInFiles' },
+  { key: 'ctrl+shift+g', mac: 'ctrl+shift+g', command: 'workbench.view.scm' },
+  { key: 'ctrl+shift+d', mac: 'cmd+shift+d', command: 'workbench.view.debug' },
+  { key: 'ctrl+shift+x', mac: 'cmd+shift+x', command: 'workbench.view.extensions' },
+  { key: 'ctrl+shift+m', mac: 'cmd+shift+m', command: 'workbench.actions.view.problems' },
+  { key: 'ctrl+shift+u', mac: 'cmd+shift+u', linux: 'ctrl+k ctrl+h', command: 'workbench.action.output.toggleOutput' },
+  { key: 'ctrl+shift+b', mac: 'cmd+shift+b', command: 'workbench.action.tasks.build' },
+  { key: 'alt+left', mac: 'ctrl+-', linux: 'ctrl+alt+-', command: 'workbench.action.navigateBack' },
+  { key: 'alt+right', mac: 'ctrl+shift+-', linux: 'ctrl+shift+-', command: 'workbench.action.navigateForward' },
+
+  // Files and editors
+  { key: 'ctrl+n', mac: 'cmd+n', command: 'workbench.action.files.newUntitledFile' },
+  { key: 'ctrl+o', mac: 'cmd+o', command: 'workbench.action.files.openFile' },
+  { key: 'ctrl+k ctrl+o', command: 'workbench.action.files.openFolder' },
+  { key: 'ctrl+s', mac: 'cmd+s', command: 'workbench.action.files.save' },
+  { key: 'ctrl+shift+s', mac: 'cmd+shift+s', command: 'workbench.action.files.saveAs' },
+  { key: 'ctrl+w', mac: 'cmd+w', command: 'workbench.action.closeActiveEditor' },
+  { key: 'ctrl+f4', command: 'workbench.action.closeActiveEditor' },
+  { key: 'ctrl+k ctrl+w', mac: 'cmd+k cmd+w', command: 'workbench.action.closeAllEditors' },
+  { key: 'ctrl+k w', mac: 'cmd+k w', command: 'workbench.action.closeEditorsInGroup' },
+  { key: 'ctrl+k f', mac: 'cmd+k f', command: 'workbench.action.closeFolder' },
+  { key: 'ctrl+shift+t', mac: 'cmd+shift+t', command: 'workbench.action.reopenClosedEditor' },
+  { key: 'ctrl+k enter', mac: 'cmd+k enter', command: 'workbench.action.keepEditor' },
+  { key: 'ctrl+k m', mac: 'cmd+k m', command: 'workbench.action.editor.changeLanguageMode' },
+  { key: 'ctrl+\\', mac: 'cmd+\\', command: 'workbench.action.splitEditor' },
+  { key: 'ctrl+1', mac: 'cmd+1', command: 'workbench.action.focusFirstEditorGroup' },
+  { key: 'ctrl+2', mac: 'cmd+2', command: 'workbench.action.focusSecondEditorGroup' },
+  { key: 'ctrl+3', mac: 'cmd+3', command: 'workbench.action.focusThirdEditorGroup' },
+  { key: 'alt+1', mac: 'ctrl+1', command: 'workbench.action.openEditorAtIndex1' },
+  { key: 'alt+2', mac: 'ctrl+2', command: 'workbench.action.openEditorAtIndex2' },
+  { key: 'ctrl+tab', mac: 'ctrl+tab', command: 'workbench.action.openNextRecentlyUsedEditorInGroup' },
+  { key: 'ctrl+pagedown', mac: 'alt+cmd+right', command: 'workbench.action.nextEditor' },
+  { key: 'ctrl+pageup', mac: 'alt+cmd+left', command: 'workbench.action.previousEditor' },
+  { key: 'ctrl+g', mac: 'ctrl+g', command: 'workbench.action.gotoLine' },
+  { key: 'ctrl+shift+o', mac: 'cmd+shift+o', command: 'workbench.action.gotoSymbol' },
+  { key: 'ctrl+t', mac: 'cmd+t', command: 'workbench.action.showAllSymbols' },
+
+  // Terminal
+  { key: 'ctrl+`', mac: 'ctrl+`', command: 'workbench.action.terminal.toggleTerminal' },
+  { key: 'ctrl+shift+`', mac: 'ctrl+shift+`', command: 'workbench.action.terminal.new' },
+  { key: 'ctrl+shift+5', mac: 'cmd+\\', command: 'workbench.action.terminal.split', when: 'terminalFocus' },
+  { key: 'ctrl+shift+c', mac: 'cmd+shift+c', command: 'workbench.action.terminal.openNativeConsole', when: '!terminalFocus' },
+  { key: 'ctrl+c', mac: 'cmd+c', linux: 'ctrl+shift+c', command: 'workbench.action.terminal.copySelection', when: 'terminalFocus && terminalTextSelected' },
+  { key: 'ctrl+v', mac: 'cmd+v', linux: 'ctrl+shift+v', command: 'workbench.action.terminal.paste', when: 'terminalFocus' },
+
+  // Debugging
+  { key: 'f5', command: 'workbench.action.debug.start', when: 'debuggersAvailable && debugState == \'inactive\'' },
+  { key: 'f5', command: 'workbench.action.debug.continue', when: 'debugState == \'stopped\'' },
+  { key: 'ctrl+f5', command: 'workbench.action.debug.run', when: 'debuggersAvailable && debugState != \'initializing\'' },
+  { key: 'shift+f5', command: 'workbench.action.debug.stop', when: 'inDebugMode' },
+  { key: 'ctrl+shift+f5', mac: 'cmd+shift+f5', command: 'workbench.action.debug.restart', when: 'inDebugMode' },
+  { key: 'f9', command: 'editor.debug.action.toggleBreakpoint', when: 'debuggersAvailable && editorTextFocus' },
+  { key: 'f10', command: 'workbench.action.debug.stepOver', when: 'debugState == \'stopped\'' },
+  { key: 'f11', mac: 'f11', command: 'workbench.action.debug.stepInto', when: 'debugState != \'inactive\'' },
+  { key: 'shift+f11', mac: 'shift+f11', command: 'workbench.action.debug.stepOut', when: 'debugState == \'stopped\'' },
+
+  // Editing
+  { key: 'ctrl+z', mac: 'cmd+z', command: 'undo' },
+  { key: 'ctrl+y', mac: 'cmd+shift+z', command: 'redo' },
+  { key: 'ctrl+shift+z', mac: 'cmd+shift+z', command: 'redo' },
+  { key: 'ctrl+c', mac: 'cmd+c', command: 'editor.action.clipboardCopyAction' },
+  { key: 'ctrl+x', mac: 'cmd+x', command: 'editor.action.clipboardCutAction' },
+  { key: 'ctrl+v', mac: 'cmd+v', command: 'editor.action.clipboardPasteAction' },
+  { key: 'ctrl+a', mac: 'cmd+a', command: 'editor.action.selectAll' },
+  { key: 'ctrl+u', mac: 'cmd+u', command: 'cursorUndo', when: 'textInputFocus' },
+  { key: 'ctrl+l', mac: 'cmd+l', command: 'expandLineSelection', when: 'textInputFocus' },
+  { key: 'ctrl+f', mac: 'cmd+f', command: 'actions.find', when: 'editorFocus || editorIsOpen' },
+  { key: 'ctrl+h', mac: 'alt+cmd+f', command: 'editor.action.startFindReplaceAction', when: 'editorFocus || editorIsOpen' },
+  { key: 'f3', mac: 'cmd+g', command: 'editor.action.nextMatchFindAction', when: 'editorFocus' },
+  { key: 'shift+f3', mac: 'cmd+shift+g', command: 'editor.action.previousMatchFindAction', when: 'editorFocus' },
+  { key: 'ctrl+d', mac: 'cmd+d', command: 'editor.action.addSelectionToNextFindMatch', when: 'editorFocus' },
+  { key: 'ctrl+k ctrl+d', mac: 'cmd+k cmd+d', command: 'editor.action.moveSelectionToNextFindMatch', when: 'editorFocus' },
+  { key: 'ctrl+shift+l', mac: 'cmd+shift+l', command: 'editor.action.selectHighlights', when: 'editorFocus' },
+  { key: 'ctrl+alt+up', mac: 'alt+cmd+up', linux: 'shift+alt+up', command: 'editor.action.insertCursorAbove', when: 'editorTextFocus' },
+  { key: 'ctrl+alt+down', mac: 'alt+cmd+down', linux: 'shift+alt+down', command: 'editor.action.insertCursorBelow', when: 'editorTextFocus' },
+  { key: 'ctrl+/', mac: 'cmd+/', command: 'editor.action.commentLine', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'shift+alt+a', mac: 'shift+alt+a', linux: 'ctrl+shift+a', command: 'editor.action.blockComment', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'ctrl+k ctrl+c', mac: 'cmd+k cmd+c', command: 'editor.action.addCommentLine', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'ctrl+k ctrl+u', mac: 'cmd+k cmd+u', command: 'editor.action.removeCommentLine', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'ctrl+shift+k', mac: 'cmd+shift+k', command: 'editor.action.deleteLines', when: 'textInputFocus && !editorReadonly' },
+  { key: 'ctrl+enter', mac: 'cmd+enter', command: 'editor.action.insertLineAfter', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'ctrl+shift+enter', mac: 'cmd+shift+enter', command: 'editor.action.insertLineBefore', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'alt+up', command: 'editor.action.moveLinesUpAction', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'alt+down', command: 'editor.action.moveLinesDownAction', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'shift+alt+up', mac: 'shift+alt+up', linux: 'ctrl+shift+alt+up', command: 'editor.action.copyLinesUpAction', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'shift+alt+down', mac: 'shift+alt+down', linux: 'ctrl+shift+alt+down', command: 'editor.action.copyLinesDownAction', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'ctrl+]', mac: 'cmd+]', command: 'editor.action.indentLines', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'ctrl+[', mac: 'cmd+[', command: 'editor.action.outdentLines', when: 'editorTextFocus && !editorReadonly' },
+  { key: 'ctrl+shift+\\', mac: 'cmd+shift+\\', command: 'editor.action.jumpToBracket', when: 'editorTextFocus' },
+  { key: 'ctrl+shift+[', mac: 'alt+cmd+[', command: 'editor.fold', when: 'editorTextFocus && foldingEnabled' },
+  { key: 'ctrl+shift+]', mac: 'alt+cmd+]', command: 'editor.unfold', when: 'editorTextFocus && foldingEnabled' },
+  { key: 'ctrl+k ctrl+0', mac: 'cmd+k cmd+0', command: 'editor.foldAll', when: 'editorTextFocus && foldingEnabled' },
+  { key: 'ctrl+k ctrl+j', mac: 'cmd+k cmd+j', command: 'editor.unfoldAll', when: 'editorTextFocus && foldingEnabled' },
+  { key: 'shift+alt+right', mac: 'ctrl+shift+cmd+right', command: 'editor.action.smartSelect.expand', when: 'editorTextFocus' },
+  { key: 'alt+z', command: 'editor.action.toggleWordWrap' },
+  { key: 'ctrl+k ctrl+x', mac: 'cmd+k cmd+x', command: 'editor.action.trimTrailingWhitespace', when: 'editorTextFocus && !editorReadonly' },
+
+  // Language features
+  { key: 'ctrl+space', mac: 'ctrl+space', command: 'editor.action.triggerSuggest', when: 'editorHasCompletionItemProvider && textInputFocus && !editorReadonly' },
+  { key: 'ctrl+shift+space', mac: 'cmd+shift+space', command: 'editor.action.triggerParameterHints', when: 'editorHasSignatureHelpProvider && editorTextFocus' },
+  { key: 'ctrl+k ctrl+i', mac: 'cmd+k cmd+i', command: 'editor.action.showHover', when: 'editorTextFocus' },
+  { key: 'ctrl+.', mac: 'cmd+.', command: 'editor.action.quickFix', when: 'editorHasCodeActionsProvider && textInputFocus && !editorReadonly' },
+  { key: 'f2', command: 'editor.action.rename', when: 'editorHasRenameProvider && editorTextFocus && !editorReadonly' },
+  { key: 'f12', command: 'editor.action.revealDefinition', when: 'editorHasDefinitionProvider && editorTextFocus' },
+  { key: 'alt+f12', mac: 'alt+f12', linux: 'ctrl+shift+f10', command: 'editor.action.peekDefinition', when: 'editorHasDefinitionProvider && editorTextFocus' },
+  { key: 'ctrl+f12', mac: 'cmd+f12', command: 'editor.action.goToImplementation', when: 'editorHasImplementationProvider && editorTextFocus' },
+  { key: 'shift+f12', command: 'editor.action.goToReferences', when: 'editorHasReferenceProvider && editorTextFocus' },
+  { key: 'shift+alt+f', mac: 'shift+alt+f', linux: 'ctrl+shift+i', command: 'editor.action.formatDocument', when: 'editorHasDocumentFormattingProvider && editorTextFocus && !editorReadonly' },
+  { key: 'ctrl+k ctrl+f', mac: 'cmd+k cmd+f', command: 'editor.action.formatSelection', when: 'editorHasDocumentSelectionFormattingProvider && editorTextFocus && !editorReadonly' },
+  { key: 'shift+alt+o', mac: 'shift+alt+o', command: 'editor.action.organizeImports', when: 'textInputFocus && !editorReadonly && supportedCodeAction =~ /(\\s|^)source\\.organizeImports\\b/' },
+  { key: 'f8', command: 'editor.action.marker.nextInFiles', when: 'editorFocus' },
+  { key: 'shift+f8', command: 'editor.action.marker.prevInFiles', when: 'editorFocus' },
+  { key: 'shift+f10', command: 'editor.action.showContextMenu', when: 'textInputFocus' }
+];
@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import { KeybindingScanner } from './scanner';
+import { KeybindingsPathResolver } from './paths';
+import { KeybindingInfo, KeybindingProblem } from './types';
+
+/**
+ * Delay after the last keystroke before a document is checked again
+ */
+const LINT_DELAY_MS = 300;
+
+export const DIAGNOSTIC_SOURCE = 'Keybinding Conflict Scanner';
+
+/**
+ * Built-in and installed extension bindings of every platform, scanned once for all the
+ * diagnostics and kept until extensions or the scan settings change
+ */
+export class BindingInventory implements vscode.Disposable {
+  private pathResolver: KeybindingsPathResolver;
+  private bindings?: Promise<KeybindingInfo[]>;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [];
+
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(pathResolver: KeybindingsPathResolver) {
+    this.pathResolver = pathResolver;
+
+    this.disposables.push(
+      this.changeEmitter,
+      vscode.extensions.onDidChange(() => this.invalidate()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('keybindingConflictScanner')) {
+          this.invalidate();
+        }
+      })
+    );
+  }
+
+  public getBindings(): Promise<KeybindingInfo[]> {
+    if (!this.bindings) {
+      const bindings = this.bindings = this.scan();
+      // Try again with a fresh scan next time
+      bindings.catch(() => {
+        if (this.bindings === bindings) {
+          this.bindings = undefined;
+        }
+      });
+    }
+    return this.bindings;
+  }
+
+  public invalidate(): void {
+    this.bindings = undefined;
+    this.changeEmitter.fire();
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  private async scan(): Promise<KeybindingInfo[]> {
+    const scanner = new KeybindingScanner(this.pathResolver);
+    await scanner.scanConflicts('all');
+    return scanner.getAllBindings().filter(b => b.source !== 'user');
+  }
+}
+
+export interface Linter {
+  lint(text: string): KeybindingProblem[];
+}
+
+export interface DocumentDiagnosticsOptions<TLinter extends Linter> {
+  /** Name of the diagnostic collection */
+  name: string;
+  /** Whether a document is checked; its problems are cleared otherwise */
+  isChecked: (document: vscode.TextDocument) => boolean;
+  /** Builds the linter from the inventory, again after the inventory changes */
+  createLinter: (inventory: KeybindingInfo[]) => TLinter | Promise<TLinter>;
+}
+
+/**
+ * Checks documents while they are edited, a short while after the last keystroke,
+ * and reports the problems the linter finds
+ */
+export class DocumentDiagnostics<TLinter extends Linter> implements vscode.Disposable {
+  private inventory: BindingInventory;
+  private options: DocumentDiagnosticsOptions<TLinter>;
+  private diagnostics: vscode.DiagnosticCollection;
+  private problems = new Map<string, KeybindingProblem[]>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private linter?: Promise<TLinter>;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(inventory: BindingInventory, options: DocumentDiagnosticsOptions<TLinter>) {
+    this.inventory = inventory;
+    this.options = options;
+    this.diagnostics = vscode.languages.createDiagnosticCollection(options.name);
+
+    this.disposables.push(
+      this.diagnostics,
+      vscode.workspace.onDidOpenTextDocument(document => this.lint(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleLint(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.clear(document)),
+      inventory.onDidChange(() => this.invalidate())
+    );
+
+    vscode.workspace.textDocuments.forEach(document => this.lint(document));
+  }
+
+  /**
+   * Rebuilds the linter and checks the open documents again
+   */
+  public invalidate(): void {
+    this.linter = undefined;
+    vscode.workspace.textDocuments.forEach(document => this.lint(document));
+  }
+
+  /**
+   * Problems found in the last check of a document
+   */
+  public getProblems(document: vscode.TextDocument): KeybindingProblem[] {
+    return this.problems.get(document.uri.toString()) ?? [];
+  }
+
+  public getLinter(): Promise<TLinter> {
+    if (!this.linter) {
+      const linter = this.linter = this.inventory.getBindings().then(inventory => this.options.createLinter(inventory));
+      linter.catch(() => {
+        if (this.linter === linter) {
+          this.linter = undefined;
+        }
+      });
+    }
+    return this.linter;
+  }
+
+  public dispose(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  private scheduleLint(document: vscode.TextDocument): void {
+    if (!this.options.isChecked(document)) {
+      this.clear(document);
+      return;
+    }
+
+    const uri = document.uri.toString();
+    clearTimeout(this.timers.get(uri));
+    this.timers.set(uri, setTimeout(() => {
+      this.timers.delete(uri);
+      this.lint(document);
+    }, LINT_DELAY_MS));
+  }
+
+  private async lint(document: vscode.TextDocument): Promise<void> {
+    if (!this.options.isChecked(document)) {
+      this.clear(document);
+      return;
+    }
+
+    const version = document.version;
+    let linter: TLinter;
+    try {
+      linter = await this.getLinter();
+    } catch {
+      return;
+    }
+
+    if (document.isClosed || document.version !== version) {
+      return;
+    }
+
+    const problems = linter.lint(document.getText());
+    this.problems.set(document.uri.toString(), problems);
+    this.diagnostics.set(document.uri, problems.map(problem => toDiagnostic(document, problem)));
+  }
+
+  private clear(document: vscode.TextDocument): void {
+    if (this.problems.delete(document.uri.toString())) {
+      this.diagnostics.delete(document.uri);
+    }
+  }
+}
+
+export function toRange(document: vscode.TextDocument, problem: KeybindingProblem): vscode.Range {
+  return new vscode.Range(document.positionAt(problem.offset), document.positionAt(problem.offset + problem.length));
+}
+
+function toDiagnostic(document: vscode.TextDocument, problem: KeybindingProblem): vscode.Diagnostic {
+  const diagnostic = new vscode.Diagnostic(toRange(document, problem), problem.message, getSeverity(problem));
+  diagnostic.source = DIAGNOSTIC_SOURCE;
+  diagnostic.code = problem.kind;
+  return diagnostic;
+}
+
+/**
+ * Taking or overriding a key VS Code already uses is usually intended, so it is only pointed out
+ */
+function getSeverity(problem: KeybindingProblem): vscode.DiagnosticSeverity {
+  if (problem.kind === 'malformedKey') {
+    return vscode.DiagnosticSeverity.Error;
+  }
+  if (problem.kind === 'conflict' && problem.bindings.every(b => b.source === 'builtin')) {
+    return vscode.DiagnosticSeverity.Information;
+  }
+  return vscode.DiagnosticSeverity.Warning;
+}
@@ -1,20 +1,144 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
 import { KeybindingScanner } from './scanner';
 import { ConflictPresenter } from './presenter';
 import { ConflictResolver } from './resolver';
-import { KeybindingInfo } from './types';
+import { ResolutionHistory } from './history';
+import { KeybindingsPathResolver } from './paths';
+import { ConflictTreeProvider } from './conflictTree';
+import { getCurrentPlatform, resolveScanTarget } from './platform';
+import { buildReport, formatPreflightReport, formatReport, REPORT_FORMATS } from './report';
+import { IgnoreList } from './ignoreList';
+import { AutoResolver } from './autoResolve';
+import { HeatmapPanel } from './heatmapPanel';
+import { POLICY_FILE } from './policy';
+import { BindingInventory } from './diagnostics';
+import { KeybindingsDiagnostics } from './keybindingsDiagnostics';
+import { ManifestDiagnostics } from './manifestDiagnostics';
+import { KeybindingChangeTracker } from './changeTracker';
+import { ConflictNotifier, getNotificationMode } from './notifications';
+import { ConflictStatusBar } from './statusBar';
+import { preflightExtension } from './preflight';
+import { readExtensionFolder, readExtensionsDirectory, readVsix } from './manifestReader';
+import { setTranslator } from './l10n';
+import { ConflictGroup, ConflictTreeNode, ExtensionManifest, KeybindingInfo, KeyboardLayoutId, PolicyViolation, PreflightTarget, ReportFormat, ReportMetadata, ResolutionRules, ScanTarget } from './types';
+
+/**
+ * ID of the sidebar view listing the last scan's conflicts
+ */
+const CONFLICT_VIEW_ID = 'keybindingConflictScanner.conflicts';
 
-let lastKnownExtensions: string[] = [];
 let outputChannel: vscode.OutputChannel;
+let history: ResolutionHistory;
+let pathResolver: KeybindingsPathResolver;
+let conflictTree: ConflictTreeProvider;
+let changeTracker: KeybindingChangeTracker;
+let notifier: ConflictNotifier;
+
+/**
+ * Delay before a background rescan, so a burst of changes is scanned once
+ */
+const RESCAN_DELAY_MS = 2000;
 
 /**
  * Extension activation
  */
 export function activate(context: vscode.ExtensionContext) {
+  // Messages of the modules shared with the CLI come from the extension's bundles too
+  setTranslator((message, ...args) => vscode.l10n.t(message, ...args));
+
   // Create output channel for logging
   outputChannel = vscode.window.createOutputChannel('Keybinding Conflict Scanner');
   context.subscriptions.push(outputChannel);
 
+  // Shared keybindings.json location for scanner and resolver
+  pathResolver = new KeybindingsPathResolver(context, outputChannel);
+  pathResolver.getKeybindingsPath();
+
+  // Journal of applied resolutions, kept in the extension's global storage
+  history = new ResolutionHistory(
+    context.globalStorageUri.fsPath,
+    message => outputChannel.appendLine(`[History] ${message}`)
+  );
+
+  // Sidebar view with the conflicts of the last scan
+  conflictTree = new ConflictTreeProvider(context);
+  context.subscriptions.push(
+    conflictTree,
+    vscode.window.registerTreeDataProvider(CONFLICT_VIEW_ID, conflictTree),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.refreshConflictView', () => refreshConflictView()),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.groupConflictsByKey', () => conflictTree.setGrouping('key')),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.groupConflictsByExtension', () => conflictTree.setGrouping('extension')),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.disableBinding', disableFromView),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.reassignBinding', reassignFromView),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.openBindingInKeyboardShortcuts', async (node: ConflictTreeNode) => {
+      if (node?.type === 'binding') {
+        await new ConflictPresenter().openInKeyboardShortcuts([node.binding]);
+      }
+    }),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.ignoreConflict', ignoreFromView),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.ignoreExtension', ignoreExtensionFromView)
+  );
+
+  // Register ignore list and auto-resolve commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand('keybinding-conflict-scanner.manageIgnoredConflicts', manageIgnoredConflicts),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.autoResolve', autoResolveConflicts)
+  );
+
+  // Problems and quick fixes while keybindings.json is edited, checked against one shared scan
+  const bindingInventory = new BindingInventory(pathResolver);
+  const keybindingsDiagnostics = new KeybindingsDiagnostics(bindingInventory, pathResolver);
+  context.subscriptions.push(
+    bindingInventory,
+    keybindingsDiagnostics,
+    vscode.languages.registerCodeActionsProvider({ pattern: '**/keybindings.json' }, keybindingsDiagnostics, {
+      providedCodeActionKinds: KeybindingsDiagnostics.providedCodeActionKinds
+    }),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.pickFreeKeyForEntry', (uri: vscode.Uri, index: number) =>
+      keybindingsDiagnostics.pickFreeKey(uri, index)
+    )
+  );
+
+  // Collisions of the keybindings an extension under development declares in its package.json
+  context.subscriptions.push(new ManifestDiagnostics(bindingInventory));
+
+  // Register team keybinding policy commands, and re-check when a policy file changes
+  const policyWatcher = vscode.workspace.createFileSystemWatcher(`**/${POLICY_FILE}`);
+  context.subscriptions.push(
+    policyWatcher,
+    policyWatcher.onDidChange(() => refreshConflictView()),
+    policyWatcher.onDidCreate(() => refreshConflictView()),
+    policyWatcher.onDidDelete(() => refreshConflictView()),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.checkPolicy', checkPolicy),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.fixPolicyViolation', fixPolicyViolationFromView)
+  );
+
+  // Conflict count in the status bar, following the view
+  context.subscriptions.push(new ConflictStatusBar(conflictTree));
+
+  // Keybinding inventory kept across sessions, to tell what extension changes brought in
+  changeTracker = new KeybindingChangeTracker(context, outputChannel);
+  notifier = new ConflictNotifier(context.globalState);
+  context.subscriptions.push(
+    vscode.commands.registerCommand('keybinding-conflict-scanner.showKeybindingChanges', showKeybindingChanges)
+  );
+
+  // Compare with the last session, catching extension changes made while the editor was closed
+  // The check also reports policy violations, so a workspace policy needs no scan of its own
+  if (isAutoDetectEnabled()) {
+    checkExtensionChanges();
+  } else if (hasWorkspacePolicy()) {
+    checkWorkspacePolicyOnOpen();
+  }
+
+  // Register keyboard heatmap command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('keybinding-conflict-scanner.showKeyboardHeatmap', showKeyboardHeatmap)
+  );
+
   // Register scan command
   const scanCommand = vscode.commands.registerCommand(
     'keybinding-conflict-scanner.scan',
@@ -25,89 +149,181 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(scanCommand);
 
-  // Initialize extension list
-  lastKnownExtensions = vscode.extensions.all.map(ext => ext.id);
+  // Register cross-platform scan command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('keybinding-conflict-scanner.scanPlatform', async () => {
+      const target = await new ConflictPresenter().pickScanTarget();
+      if (target) {
+        await scanKeybindingConflicts(false, target);
+      }
+    })
+  );
 
-  // Watch for extension installation only
-  const extensionChangeListener = vscode.extensions.onDidChange(async () => {
-    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
-    const autoDetect = config.get<boolean>('autoDetect', true);
+  // Register history commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand('keybinding-conflict-scanner.undoLastResolution', undoLastResolution),
+    vscode.commands.registerCommand('keybinding-conflict-scanner.showResolutionHistory', showResolutionHistory)
+  );
 
-    if (!autoDetect) {
-      return;
-    }
+  // Register report export command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('keybinding-conflict-scanner.exportReport', exportConflictReport)
+  );
 
-    const currentExtensions = vscode.extensions.all.map(ext => ext.id);
+  // Register preflight command, also offered on .vsix files in the explorer
+  context.subscriptions.push(
+    vscode.commands.registerCommand('keybinding-conflict-scanner.preflightExtension', (uri?: vscode.Uri) =>
+      preflightExtensionKeybindings(uri ? { type: 'vsix', path: uri.fsPath } : undefined)
+    )
+  );
 
-    // Find newly installed extensions
-    const newExtensions = currentExtensions.filter(id => !lastKnownExtensions.includes(id));
+  // Watch for installs, updates, enables and disables
+  // Wait a bit for extensions to fully load; several changes in a row are checked once
+  let extensionChangeTimer: NodeJS.Timeout | undefined;
+  const extensionChangeListener = vscode.extensions.onDidChange(() => {
+    clearTimeout(extensionChangeTimer);
+    extensionChangeTimer = setTimeout(
+      () => isAutoDetectEnabled() ? checkExtensionChanges() : refreshConflictView(),
+      RESCAN_DELAY_MS
+    );
+  });
 
-    if (newExtensions.length > 0) {
-      lastKnownExtensions = currentExtensions;
+  // Rescan in the background when keybindings.json changes, whether edited here, by hand or by Settings Sync
+  const keybindingsPath = pathResolver.getKeybindingsPath();
+  const keybindingsWatcher = vscode.workspace.createFileSystemWatcher(
+    new vscode.RelativePattern(vscode.Uri.file(path.dirname(keybindingsPath)), path.basename(keybindingsPath))
+  );
+  let keybindingsChangeTimer: NodeJS.Timeout | undefined;
+  const scheduleRescan = () => {
+    clearTimeout(keybindingsChangeTimer);
+    keybindingsChangeTimer = setTimeout(() => rescanInBackground(), RESCAN_DELAY_MS);
+  };
 
-      // Wait a bit for extension to fully load
-      setTimeout(async () => {
-        await scanNewExtensionConflicts(newExtensions);
-      }, 2000);
-    } else {
-      // Just update the list (for uninstall case)
-      lastKnownExtensions = currentExtensions;
-    }
-  });
+  context.subscriptions.push(
+    extensionChangeListener,
+    keybindingsWatcher,
+    keybindingsWatcher.onDidChange(scheduleRescan),
+    keybindingsWatcher.onDidCreate(scheduleRescan),
+    keybindingsWatcher.onDidDelete(scheduleRescan),
+    { dispose: () => { clearTimeout(extensionChangeTimer); clearTimeout(keybindingsChangeTimer); } }
+  );
+}
 
-  context.subscriptions.push(extensionChangeListener);
+/**
+ * Whether extension changes are checked automatically
+ */
+function isAutoDetectEnabled(): boolean {
+  return vscode.workspace.getConfiguration('keybindingConflictScanner').get<boolean>('autoDetect', true);
 }
 
 /**
- * Scans only the newly installed extensions for conflicts
+ * Scans, compares the keybindings with the snapshot of the previous check
+ * and reports the conflicts that extension changes introduced
  */
-async function scanNewExtensionConflicts(newExtensionIds: string[]): Promise<void> {
-  const scanner = new KeybindingScanner(outputChannel);
+async function checkExtensionChanges(): Promise<void> {
+  const scanner = new KeybindingScanner(pathResolver, outputChannel);
   const presenter = new ConflictPresenter();
-  const resolver = new ConflictResolver();
+  const target = conflictTree.getResults()?.target ?? getConfiguredScanTarget();
 
   try {
-    // Get all bindings
-    const allConflicts = await scanner.scanConflicts();
+    const allConflicts = await scanner.scanConflicts(target);
     const allBindings = scanner.getAllBindings();
+    await conflictTree.update(allConflicts, allBindings, target, scanner.getPolicyViolations());
+    reportPolicyViolations(scanner);
+
+    // The snapshot is of this machine's keybindings
+    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+    const report = resolveScanTarget(target).includes(getCurrentPlatform())
+      ? await changeTracker.update(allBindings, allConflicts, config.get<KeyboardLayoutId>('keyboardLayout', 'us'))
+      : undefined;
 
-    // Filter conflicts that involve the new extensions
-    const newExtensionConflicts = allConflicts.filter(conflict =>
-      conflict.bindings.some(binding => newExtensionIds.includes(binding.extensionId))
+    await notifyConflicts(allConflicts, allBindings, report !== undefined);
+  } catch (error) {
+    presenter.showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
     );
+  }
+}
 
-    if (newExtensionConflicts.length === 0) {
-      return; // No conflicts from new extensions
-    }
+/**
+ * Re-scans after keybindings.json changed, keeping the status bar and the view current
+ */
+async function rescanInBackground(): Promise<void> {
+  await refreshConflictView();
 
-    // Show notification
-    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
-    const showNotifications = config.get<boolean>('showNotifications', true);
-
-    if (showNotifications) {
-      const newExtensionNames = new Set(
-        newExtensionConflicts.flatMap(c =>
-          c.bindings
-            .filter(b => newExtensionIds.includes(b.extensionId))
-            .map(b => b.extensionName)
-        )
-      );
+  const results = conflictTree.getResults();
+  if (results) {
+    await notifyConflicts(results.conflicts, conflictTree.getAllBindings());
+  }
+}
+
+/**
+ * Announces the conflicts found by an automatic check, as the 'notifications' setting asks
+ */
+async function notifyConflicts(conflicts: ConflictGroup[], allBindings: KeybindingInfo[], offerChanges = false): Promise<void> {
+  const announced = await notifier.select(conflicts);
+  if (announced.length === 0) {
+    return;
+  }
 
-      const extensionList = Array.from(newExtensionNames).join(', ');
+  const extensionList = Array.from(new Set(
+    announced.flatMap(c => c.bindings.filter(b => b.source === 'extension').map(b => b.extensionName))
+  )).join(', ');
+  const resolveNow = vscode.l10n.t('Resolve Now');
+  const showChanges = vscode.l10n.t('Show Changes');
+  const buttons = offerChanges ? [resolveNow, showChanges, vscode.l10n.t('Ignore')] : [resolveNow, vscode.l10n.t('Ignore')];
 
-      const action = await vscode.window.showWarningMessage(
-        `Found ${newExtensionConflicts.length} keybinding conflict(s) from newly installed extension(s): ${extensionList}`,
-        'Resolve Now',
-        'Ignore'
-      );
+  const message = getNotificationMode() === 'always'
+    ? extensionList
+      ? vscode.l10n.t('Keybinding Conflict Scanner: Found {0} keybinding conflict(s) from {1}.', announced.length, extensionList)
+      : vscode.l10n.t('Keybinding Conflict Scanner: Found {0} keybinding conflict(s).', announced.length)
+    : extensionList
+      ? vscode.l10n.t('Keybinding Conflict Scanner: Found {0} new keybinding conflict(s) from {1}.', announced.length, extensionList)
+      : vscode.l10n.t('Keybinding Conflict Scanner: Found {0} new keybinding conflict(s).', announced.length);
+  const action = await vscode.window.showWarningMessage(message, ...buttons);
 
-      if (action === 'Resolve Now') {
-        await processConflictResolution(newExtensionConflicts, allBindings, presenter, resolver);
-      }
+  if (action === resolveNow) {
+    const presenter = new ConflictPresenter();
+    try {
+      await processConflictResolution(announced, allBindings, presenter, new ConflictResolver(pathResolver, history));
+    } catch (error) {
+      presenter.showError(
+        error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+      );
     }
+  } else if (action === showChanges) {
+    await showKeybindingChanges();
+  }
+}
+
+/**
+ * Shows what the last detected extension changes did to the keybindings
+ */
+async function showKeybindingChanges(): Promise<void> {
+  const presenter = new ConflictPresenter();
+  const resolver = new ConflictResolver(pathResolver, history);
+  const report = changeTracker.getLastReport();
+
+  const action = await presenter.showKeybindingChanges(report);
+  if (!action || !report) {
+    return;
+  }
+
+  if (action.type === 'open') {
+    await presenter.openInKeyboardShortcuts([action.binding]);
+    return;
+  }
+
+  try {
+    // Re-scan so conflicts resolved since the report aren't offered again
+    const scanner = new KeybindingScanner(pathResolver, outputChannel);
+    const conflicts = (await scanner.scanConflicts('current')).filter(conflict =>
+      report.newConflicts.some(c => c.key === conflict.key && c.platform === conflict.platform && c.kind === conflict.kind)
+    );
+    await processConflictResolution(conflicts, scanner.getAllBindings(), presenter, resolver);
   } catch (error) {
     presenter.showError(
-      error instanceof Error ? error.message : 'An unknown error occurred'
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
     );
   }
 }
@@ -115,10 +331,10 @@ async function scanNewExtensionConflicts(newExtensionIds: string[]): Promise<voi
 /**
  * Main command handler: Scan and resolve keybinding conflicts
  */
-async function scanKeybindingConflicts(isAutomatic: boolean): Promise<void> {
-  const scanner = new KeybindingScanner(outputChannel);
+async function scanKeybindingConflicts(isAutomatic: boolean, target?: ScanTarget): Promise<void> {
+  const scanner = new KeybindingScanner(pathResolver, outputChannel);
   const presenter = new ConflictPresenter();
-  const resolver = new ConflictResolver();
+  const resolver = new ConflictResolver(pathResolver, history);
 
   try {
     let conflicts: any[] = [];
@@ -126,49 +342,37 @@ async function scanKeybindingConflicts(isAutomatic: boolean): Promise<void> {
 
     // Scan for conflicts (without progress for automatic scans)
     if (isAutomatic) {
-      conflicts = await scanner.scanConflicts();
+      conflicts = (await scanner.scanConflicts()).filter(c => c.severity !== 'none');
       allBindings = scanner.getAllBindings();
+      await conflictTree.update(conflicts, allBindings, getConfiguredScanTarget(), scanner.getPolicyViolations());
+      reportPolicyViolations(scanner);
 
-      // Only show notification if conflicts found and notifications enabled
-      if (conflicts.length > 0) {
-        const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
-        const showNotifications = config.get<boolean>('showNotifications', true);
-
-        if (showNotifications) {
-          const action = await vscode.window.showWarningMessage(
-            `Keybinding Conflict Scanner: Found ${conflicts.length} conflict(s).`,
-            'Resolve Now',
-            'Ignore'
-          );
-
-          if (action === 'Resolve Now') {
-            await processConflictResolution(conflicts, allBindings, presenter, resolver);
-          }
-        }
-      }
+      await notifyConflicts(conflicts, allBindings);
     } else {
       // Manual scan - show progress
       await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
-          title: 'Scanning keybinding conflicts...',
+          title: vscode.l10n.t('Scanning keybinding conflicts...'),
           cancellable: false
         },
         async (progress) => {
-          progress.report({ message: 'Analyzing extensions...' });
-          conflicts = await scanner.scanConflicts();
+          progress.report({ message: vscode.l10n.t('Analyzing extensions...') });
+          conflicts = await scanner.scanConflicts(target);
           allBindings = scanner.getAllBindings();
-          progress.report({ message: 'Complete' });
+          await conflictTree.update(conflicts, allBindings, target ?? getConfiguredScanTarget(), scanner.getPolicyViolations());
+          progress.report({ message: vscode.l10n.t('Complete') });
         }
       );
 
       // Process resolution
       await processConflictResolution(conflicts, allBindings, presenter, resolver);
+      reportPolicyViolations(scanner);
     }
 
   } catch (error) {
     presenter.showError(
-      error instanceof Error ? error.message : 'An unknown error occurred'
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
     );
   }
 }
@@ -193,18 +397,727 @@ async function processConflictResolution(
       await resolver.disableKeybindings(action.bindings);
       presenter.showResolutionSummary(action.bindings.length);
     } else if (action.type === 'reassign') {
-      await resolver.reassignKeybinding(
-        action.bindings[0],
-        action.newKey,
-        action.allBindings
+      await resolver.reassignKeybindings(action.reassignments, action.allBindings);
+      vscode.window.showInformationMessage(
+        action.reassignments.length === 1
+          ? vscode.l10n.t('Keybinding Conflict Scanner: Keybinding changed to "{0}".', action.reassignments[0].newKey)
+          : vscode.l10n.t('Keybinding Conflict Scanner: Reassigned {0} keybinding(s).', action.reassignments.length)
       );
+    } else if (action.type === 'ignore') {
+      await new IgnoreList().ignoreConflicts(action.conflicts);
       vscode.window.showInformationMessage(
-        `Keybinding Conflict Scanner: Keybinding changed to "${action.newKey}".`
+        vscode.l10n.t('Keybinding Conflict Scanner: Ignored {0} conflict(s). Use "Manage Ignored Conflicts" to undo.', action.conflicts.length)
+      );
+    } else {
+      await new IgnoreList().ignoreExtensions(action.extensionIds);
+      vscode.window.showInformationMessage(
+        vscode.l10n.t('Keybinding Conflict Scanner: Ignoring all conflicts from {0} extension(s). Use "Manage Ignored Conflicts" to undo.', action.extensionIds.length)
       );
     }
   } catch (error) {
     throw error;
   }
+
+  await refreshConflictView();
+}
+
+/**
+ * Re-scans with the target of the last scan and updates the conflicts view
+ */
+async function refreshConflictView(target?: ScanTarget): Promise<void> {
+  const scanner = new KeybindingScanner(pathResolver, outputChannel);
+  const scanTarget = target ?? conflictTree.getResults()?.target ?? getConfiguredScanTarget();
+
+  try {
+    await vscode.window.withProgress({ location: { viewId: CONFLICT_VIEW_ID } }, async () => {
+      const conflicts = await scanner.scanConflicts(scanTarget);
+      await conflictTree.update(conflicts, scanner.getAllBindings(), scanTarget, scanner.getPolicyViolations());
+
+      // The heatmap shows this machine's keyboard
+      if (resolveScanTarget(scanTarget).includes(getCurrentPlatform())) {
+        HeatmapPanel.refresh(scanner.getEffectiveBindings());
+      }
+    });
+  } catch (error) {
+    new ConflictPresenter().showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+  }
+}
+
+/**
+ * Disables a keybinding from its inline action in the conflicts view
+ */
+async function disableFromView(node: ConflictTreeNode): Promise<void> {
+  if (node?.type !== 'binding') {
+    return;
+  }
+
+  const presenter = new ConflictPresenter();
+  const resolver = new ConflictResolver(pathResolver, history);
+
+  try {
+    await resolver.disableKeybindings([node.binding]);
+    presenter.showResolutionSummary(1);
+  } catch (error) {
+    presenter.showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+    return;
+  }
+
+  await refreshConflictView();
+}
+
+/**
+ * Fixes one team keybinding policy violation, or all of them, from the inline action in the conflicts view
+ */
+async function fixPolicyViolationFromView(node: ConflictTreeNode): Promise<void> {
+  if (node?.type === 'violation') {
+    await fixPolicyViolations([node.violation], false);
+  } else if (node?.type === 'policy') {
+    await fixPolicyViolations(node.violations, false);
+  }
+}
+
+/**
+ * Reassigns a keybinding from its inline action in the conflicts view
+ */
+async function reassignFromView(node: ConflictTreeNode): Promise<void> {
+  if (node?.type !== 'binding') {
+    return;
+  }
+
+  const presenter = new ConflictPresenter();
+  const resolver = new ConflictResolver(pathResolver, history);
+
+  // Results restored from a previous session don't carry every binding, so scan again first
+  if (conflictTree.getAllBindings().length === 0) {
+    await refreshConflictView();
+  }
+  const allBindings = conflictTree.getAllBindings();
+
+  const newKey = await presenter.promptNewKey(node.binding, allBindings);
+  if (!newKey) {
+    return;
+  }
+
+  try {
+    await resolver.reassignKeybinding(node.binding, newKey, allBindings);
+    vscode.window.showInformationMessage(
+      vscode.l10n.t('Keybinding Conflict Scanner: Keybinding changed to "{0}".', newKey)
+    );
+  } catch (error) {
+    presenter.showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+    return;
+  }
+
+  await refreshConflictView();
+}
+
+/**
+ * Ignores a conflict from the conflicts view
+ */
+async function ignoreFromView(node: ConflictTreeNode): Promise<void> {
+  if (node?.type !== 'conflict' && node?.type !== 'binding') {
+    return;
+  }
+
+  await new IgnoreList().ignoreConflicts([node.group]);
+  await refreshConflictView();
+}
+
+/**
+ * Ignores every conflict of an extension from the conflicts view
+ */
+async function ignoreExtensionFromView(node: ConflictTreeNode): Promise<void> {
+  if (node?.type === 'extension') {
+    await new IgnoreList().ignoreExtensions([node.extensionId]);
+  } else if (node?.type === 'binding') {
+    await new IgnoreList().ignoreExtensions([node.binding.extensionId]);
+  } else {
+    return;
+  }
+
+  await refreshConflictView();
+}
+
+/**
+ * Lists ignored conflicts and reports the selected ones again
+ */
+async function manageIgnoredConflicts(): Promise<void> {
+  const ignoreList = new IgnoreList();
+
+  const removed = await new ConflictPresenter().showIgnoredConflicts(ignoreList.getEntries());
+  if (!removed) {
+    return;
+  }
+
+  await ignoreList.remove(removed);
+  vscode.window.showInformationMessage(
+    removed.length === 1
+      ? vscode.l10n.t('Keybinding Conflict Scanner: {0} ignored entry removed.', removed.length)
+      : vscode.l10n.t('Keybinding Conflict Scanner: {0} ignored entries removed.', removed.length)
+  );
+  await refreshConflictView();
+}
+
+/**
+ * Whether any open workspace folder has a team keybinding policy
+ */
+function hasWorkspacePolicy(): boolean {
+  return (vscode.workspace.workspaceFolders ?? []).some(folder =>
+    fs.existsSync(path.join(folder.uri.fsPath, POLICY_FILE))
+  );
+}
+
+/**
+ * Scans once the workspace is open, so policy violations show up without a manual scan
+ */
+async function checkWorkspacePolicyOnOpen(): Promise<void> {
+  const scanner = new KeybindingScanner(pathResolver, outputChannel);
+  const target = conflictTree.getResults()?.target ?? getConfiguredScanTarget();
+
+  try {
+    const conflicts = await scanner.scanConflicts(target);
+    await conflictTree.update(conflicts, scanner.getAllBindings(), target, scanner.getPolicyViolations());
+    reportPolicyViolations(scanner);
+  } catch (error) {
+    new ConflictPresenter().showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+  }
+}
+
+/**
+ * Warns about unreadable policy files and offers to fix the violations found by a scan
+ * The warning isn't awaited, so snapshots and conflict notifications don't wait for the user to answer it
+ */
+function reportPolicyViolations(scanner: KeybindingScanner): void {
+  showPolicyErrors(scanner);
+
+  const violations = scanner.getPolicyViolations();
+  if (violations.length === 0 || getNotificationMode() === 'never') {
+    return;
+  }
+
+  const fixNow = vscode.l10n.t('Fix Now');
+  vscode.window.showWarningMessage(
+    vscode.l10n.t('Keybinding Conflict Scanner: Your keybindings break {0} rule(s) of the team keybinding policy.', violations.length),
+    fixNow,
+    vscode.l10n.t('Ignore')
+  ).then(async action => {
+    if (action === fixNow) {
+      await fixPolicyViolations(violations, true);
+    }
+  });
+}
+
+function showPolicyErrors(scanner: KeybindingScanner): void {
+  for (const error of scanner.getPolicyErrors()) {
+    vscode.window.showWarningMessage(vscode.l10n.t('Keybinding Conflict Scanner: Couldn\'t read the team keybinding policy. {0}', error));
+  }
+}
+
+/**
+ * Checks this machine's keybindings against the workspace policy and offers fixes
+ */
+async function checkPolicy(): Promise<void> {
+  if (!hasWorkspacePolicy()) {
+    vscode.window.showInformationMessage(
+      vscode.l10n.t('Keybinding Conflict Scanner: No team keybinding policy found. Add {0} to a workspace folder to define one.', POLICY_FILE)
+    );
+    return;
+  }
+
+  const scanner = new KeybindingScanner(pathResolver, outputChannel);
+
+  try {
+    // The policy applies to this machine's keybindings
+    const conflicts = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: vscode.l10n.t('Checking team keybinding policy...'),
+        cancellable: false
+      },
+      () => scanner.scanConflicts('current')
+    );
+    await conflictTree.update(conflicts, scanner.getAllBindings(), 'current', scanner.getPolicyViolations());
+  } catch (error) {
+    new ConflictPresenter().showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+    return;
+  }
+
+  showPolicyErrors(scanner);
+  await fixPolicyViolations(scanner.getPolicyViolations(), true);
+}
+
+/**
+ * Writes the fixes for policy violations to keybindings.json, letting the user pick them first if asked
+ */
+async function fixPolicyViolations(violations: PolicyViolation[], pick: boolean): Promise<void> {
+  const presenter = new ConflictPresenter();
+  const resolver = new ConflictResolver(pathResolver, history);
+
+  try {
+    const selected = pick ? await presenter.pickPolicyViolations(violations) : violations;
+    if (!selected) {
+      return;
+    }
+
+    await resolver.enforcePolicy(selected);
+    vscode.window.showInformationMessage(
+      vscode.l10n.t('Keybinding Conflict Scanner: Fixed {0} team keybinding policy violation(s).', selected.length)
+    );
+  } catch (error) {
+    presenter.showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+    return;
+  }
+
+  await refreshConflictView();
+}
+
+/**
+ * Resolves the conflicts on this machine that the 'rules' setting covers, after confirmation
+ */
+async function autoResolveConflicts(): Promise<void> {
+  const presenter = new ConflictPresenter();
+  const resolver = new ConflictResolver(pathResolver, history);
+  const scanner = new KeybindingScanner(pathResolver, outputChannel);
+
+  const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+  const configured = config.get<Partial<ResolutionRules>>('rules', {});
+  const rules: ResolutionRules = {
+    priorities: configured.priorities ?? [],
+    pinnedKeys: configured.pinnedKeys ?? []
+  };
+
+  if (rules.priorities.length === 0 && rules.pinnedKeys.length === 0) {
+    const openSettings = vscode.l10n.t('Open Settings');
+    const action = await vscode.window.showInformationMessage(
+      vscode.l10n.t('Keybinding Conflict Scanner: No auto-resolve rules are defined. Add extension priorities or pinned keys to the "rules" setting first.'),
+      openSettings
+    );
+    if (action === openSettings) {
+      await vscode.commands.executeCommand('workbench.action.openSettings', 'keybindingConflictScanner.rules');
+    }
+    return;
+  }
+
+  try {
+    // keybindings.json only affects this machine, so only its platform is resolved
+    const conflicts = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: vscode.l10n.t('Scanning keybinding conflicts...'),
+        cancellable: false
+      },
+      () => scanner.scanConflicts('current')
+    );
+
+    const layout = config.get<KeyboardLayoutId>('keyboardLayout', 'us');
+    const plan = new AutoResolver(rules, getCurrentPlatform(), layout).plan(conflicts);
+
+    outputChannel.appendLine(`[AutoResolve] ${plan.decisions.length} conflict(s) covered by rules, ${plan.skipped.length} skipped`);
+    for (const decision of plan.decisions) {
+      outputChannel.appendLine(`[AutoResolve] ${decision.conflict.key}: keep ${decision.winners.map(b => b.command).join(', ')}, disable ${decision.losers.map(b => `${b.command} (${b.extensionName})`).join(', ')} (${decision.reason})`);
+    }
+    for (const { conflict, reason } of plan.skipped) {
+      outputChannel.appendLine(`[AutoResolve] ${conflict.key}: skipped (${reason})`);
+    }
+
+    if (plan.actions.length === 0) {
+      vscode.window.showInformationMessage(
+        vscode.l10n.t('Keybinding Conflict Scanner: The rules don\'t settle any of the {0} conflict(s). See the output channel for details.', plan.skipped.length)
+      );
+      return;
+    }
+
+    if (!await presenter.confirmAutoResolution(plan)) {
+      return;
+    }
+
+    for (const action of plan.actions) {
+      if (action.type === 'disable') {
+        await resolver.disableKeybindings(action.bindings);
+        presenter.showResolutionSummary(action.bindings.length);
+      }
+    }
+  } catch (error) {
+    presenter.showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+    return;
+  }
+
+  await refreshConflictView();
+}
+
+/**
+ * Opens a keyboard coloured by how many keybindings occupy each key on this machine
+ */
+async function showKeyboardHeatmap(): Promise<void> {
+  const scanner = new KeybindingScanner(pathResolver, outputChannel);
+
+  try {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: vscode.l10n.t('Scanning keybindings...'),
+        cancellable: false
+      },
+      () => scanner.scanConflicts('current')
+    );
+
+    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+    const layout = config.get<KeyboardLayoutId>('keyboardLayout', 'us');
+    HeatmapPanel.show(scanner.getEffectiveBindings(), getCurrentPlatform(), layout, reassignToFreeKey);
+  } catch (error) {
+    new ConflictPresenter().showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+  }
+}
+
+/**
+ * Moves a keybinding of the user's choice to a free key picked in the heatmap
+ */
+async function reassignToFreeKey(key: string): Promise<void> {
+  const scanner = new KeybindingScanner(pathResolver, outputChannel);
+  const presenter = new ConflictPresenter();
+  const resolver = new ConflictResolver(pathResolver, history);
+
+  try {
+    const conflicts = await scanner.scanConflicts('current');
+    // Bindings disabled in keybindings.json don't occupy a key, as the heatmap shows
+    const effectiveBindings = scanner.getEffectiveBindings();
+
+    const binding = await presenter.pickBindingToMove(
+      key,
+      conflicts.filter(c => c.severity !== 'none'),
+      effectiveBindings
+    );
+    if (!binding) {
+      return;
+    }
+
+    const newKey = await presenter.promptNewKey(binding, effectiveBindings, new Map(), key);
+    if (!newKey) {
+      return;
+    }
+
+    await resolver.reassignKeybinding(binding, newKey, effectiveBindings);
+    vscode.window.showInformationMessage(
+      vscode.l10n.t('Keybinding Conflict Scanner: Keybinding changed to "{0}".', newKey)
+    );
+  } catch (error) {
+    presenter.showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+    return;
+  }
+
+  await refreshConflictView();
+  if (!resolveScanTarget(conflictTree.getResults()?.target ?? 'current').includes(getCurrentPlatform())) {
+    await scanner.scanConflicts('current');
+    HeatmapPanel.refresh(scanner.getEffectiveBindings());
+  }
+}
+
+/**
+ * Scans with the target of the last scan and saves the results as a report file
+ */
+async function exportConflictReport(): Promise<void> {
+  const presenter = new ConflictPresenter();
+
+  const format = await presenter.pickReportFormat();
+  if (!format) {
+    return;
+  }
+
+  const scanner = new KeybindingScanner(pathResolver, outputChannel);
+  const target = conflictTree.getResults()?.target ?? getConfiguredScanTarget();
+
+  try {
+    const content = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: vscode.l10n.t('Building keybinding conflict report...'),
+        cancellable: false
+      },
+      async () => {
+        const conflicts = await scanner.scanConflicts(target);
+        const allBindings = scanner.getAllBindings();
+        await conflictTree.update(conflicts, allBindings, target, scanner.getPolicyViolations());
+
+        const report = buildReport(conflicts, allBindings, getReportMetadata(target, allBindings));
+        return formatReport(report, format);
+      }
+    );
+
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: getDefaultReportUri(format),
+      filters: { [REPORT_FORMATS[format].label]: [REPORT_FORMATS[format].extension] },
+      saveLabel: vscode.l10n.t('Export Report')
+    });
+
+    if (!uri) {
+      return;
+    }
+
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+    outputChannel.appendLine(`[Report] Exported ${REPORT_FORMATS[format].label} report to ${uri.fsPath}`);
+
+    const open = vscode.l10n.t('Open');
+    const action = await vscode.window.showInformationMessage(
+      vscode.l10n.t('Keybinding Conflict Scanner: Report saved to {0}.', uri.fsPath),
+      open
+    );
+
+    if (action === open) {
+      if (format === 'html') {
+        await vscode.env.openExternal(uri);
+      } else {
+        await vscode.window.showTextDocument(uri);
+      }
+    }
+  } catch (error) {
+    presenter.showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+  }
+}
+
+/**
+ * Checks an extension that isn't enabled yet for conflicts and shows a preview report
+ */
+async function preflightExtensionKeybindings(target?: PreflightTarget): Promise<void> {
+  const presenter = new ConflictPresenter();
+
+  try {
+    target = target ?? await presenter.pickPreflightTarget(findDisabledExtensions());
+    if (!target) {
+      return;
+    }
+
+    const extension = readPreflightTarget(target);
+    const scanner = new KeybindingScanner(pathResolver, outputChannel);
+    const scanTarget = conflictTree.getResults()?.target ?? getConfiguredScanTarget();
+
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: vscode.l10n.t('Checking keybindings of {0}...', extension.name),
+        cancellable: false
+      },
+      async () => {
+        await scanner.scanConflicts(scanTarget);
+        const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+        return preflightExtension(
+          extension,
+          scanner.getAllBindings(),
+          resolveScanTarget(scanTarget),
+          config.get<KeyboardLayoutId>('keyboardLayout', 'us'),
+          { filter: new IgnoreList(), userDisabledCommands: scanner.getUserDisabledCommands() }
+        );
+      }
+    );
+    outputChannel.appendLine(`[Preflight] ${extension.id} ${extension.version} (${extension.location}): ${result.bindings.length} keybinding(s), ${result.conflicts.length} conflict(s)`);
+
+    const document = await vscode.workspace.openTextDocument({ content: formatPreflightReport(result), language: 'markdown' });
+    await vscode.commands.executeCommand('markdown.showPreview', document.uri);
+
+    const summary = result.conflicts.length === 0
+      ? vscode.l10n.t('Keybinding Conflict Scanner: {0} has no keybinding conflicts with your setup.', extension.name)
+      : vscode.l10n.t('Keybinding Conflict Scanner: {0} would bring in {1} keybinding conflict(s).', extension.name, result.conflicts.length);
+    const vsixPath = target.type === 'vsix' ? target.path : undefined;
+    const install = vscode.l10n.t('Install');
+    const action = await vscode.window.showInformationMessage(summary, ...(vsixPath ? [install] : []));
+
+    if (action === install && vsixPath) {
+      await vscode.commands.executeCommand('workbench.extensions.installExtension', vscode.Uri.file(vsixPath));
+    }
+  } catch (error) {
+    presenter.showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+  }
+}
+
+function readPreflightTarget(target: PreflightTarget): ExtensionManifest {
+  if (target.type === 'extension') {
+    return target.extension;
+  }
+  if (target.type === 'vsix') {
+    return readVsix(target.path);
+  }
+
+  const extension = readExtensionFolder(target.path);
+  if (!extension) {
+    throw new Error(vscode.l10n.t('No package.json found in {0}', target.path));
+  }
+  return extension;
+}
+
+/**
+ * Lists the extensions on disk that the editor hasn't loaded: disabled ones, and newer versions waiting for a restart
+ */
+function findDisabledExtensions(): ExtensionManifest[] {
+  const directory = getExtensionsDirectory();
+
+  try {
+    const extensions = readExtensionsDirectory(directory, message => outputChannel.appendLine(`[Preflight] ${message}`));
+    return extensions.filter(extension => {
+      const loaded = vscode.extensions.getExtension(extension.id);
+      return !loaded || loaded.packageJSON?.version !== extension.version;
+    });
+  } catch (error) {
+    outputChannel.appendLine(`[Preflight] Failed to read ${directory}: ${error instanceof Error ? error.message : error}`);
+    return [];
+  }
+}
+
+/**
+ * Folder the installed extensions share, falling back to the default location when none is installed
+ * Extensions under development load from their checkout, so they are left out, and the most common
+ * folder wins over any other extension loaded from elsewhere
+ */
+function getExtensionsDirectory(): string {
+  const counts = new Map<string, number>();
+  for (const extension of vscode.extensions.all) {
+    if (!extension.packageJSON?.isBuiltin && !extension.packageJSON?.isUnderDevelopment) {
+      const directory = path.dirname(extension.extensionPath);
+      counts.set(directory, (counts.get(directory) ?? 0) + 1);
+    }
+  }
+
+  const [directory] = [...counts].sort((a, b) => b[1] - a[1])[0] ?? [];
+  return directory ?? path.join(os.homedir(), '.vscode', 'extensions');
+}
+
+/**
+ * Describes the editor, platforms and extensions a report was made with
+ */
+function getReportMetadata(target: ScanTarget, allBindings: KeybindingInfo[]): ReportMetadata {
+  const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+  const extensionIds = new Set(allBindings.filter(b => b.source === 'extension').map(b => b.extensionId));
+
+  return {
+    editor: { name: vscode.env.appName, version: vscode.version },
+    platform: getCurrentPlatform(),
+    scanTarget: target,
+    scannedPlatforms: resolveScanTarget(target),
+    keyboardLayout: config.get<KeyboardLayoutId>('keyboardLayout', 'us'),
+    extensions: vscode.extensions.all
+      .filter(ext => extensionIds.has(ext.id))
+      .map(ext => ({
+        id: ext.id,
+        name: ext.packageJSON.displayName || ext.packageJSON.name || ext.id,
+        version: ext.packageJSON.version || ''
+      }))
+      .sort((a, b) => a.id.localeCompare(b.id))
+  };
+}
+
+/**
+ * Suggests a file name in the first workspace folder, if one is open
+ */
+function getDefaultReportUri(format: ReportFormat): vscode.Uri | undefined {
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const fileName = `keybinding-conflicts.${REPORT_FORMATS[format].extension}`;
+  return folder ? vscode.Uri.joinPath(folder, fileName) : undefined;
+}
+
+/**
+ * Gets the scan target from the 'targetPlatform' setting
+ */
+function getConfiguredScanTarget(): ScanTarget {
+  const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+  return config.get<ScanTarget>('targetPlatform', 'current');
+}
+
+/**
+ * Reverts the most recent resolution that is still in effect
+ */
+async function undoLastResolution(): Promise<void> {
+  const presenter = new ConflictPresenter();
+  const resolver = new ConflictResolver(pathResolver, history);
+
+  const record = history.getLastActive();
+  if (!record) {
+    vscode.window.showInformationMessage(vscode.l10n.t('Keybinding Conflict Scanner: Nothing to undo.'));
+    return;
+  }
+
+  const undo = vscode.l10n.t('Undo');
+  const confirm = await vscode.window.showWarningMessage(
+    vscode.l10n.t('Undo "{0}"?', record.summary),
+    { modal: true },
+    undo
+  );
+
+  if (confirm !== undo) {
+    return;
+  }
+
+  try {
+    await resolver.revertResolution(record);
+    outputChannel.appendLine(`[History] Reverted: ${record.summary}`);
+    vscode.window.showInformationMessage(vscode.l10n.t('Keybinding Conflict Scanner: Reverted "{0}".', record.summary));
+  } catch (error) {
+    presenter.showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+    return;
+  }
+
+  await refreshConflictView();
+}
+
+/**
+ * Shows the resolution history and reverts the selected entries
+ */
+async function showResolutionHistory(): Promise<void> {
+  const presenter = new ConflictPresenter();
+  const resolver = new ConflictResolver(pathResolver, history);
+
+  const action = await presenter.showHistory(history.getRecords());
+  if (!action) {
+    return;
+  }
+
+  try {
+    if (action.type === 'revertAll') {
+      // Newest first, so each revert sees the file as its resolution left it
+      const active = history.getRecords().filter(r => !r.reverted);
+      for (const record of active) {
+        await resolver.revertResolution(record);
+        outputChannel.appendLine(`[History] Reverted: ${record.summary}`);
+      }
+      vscode.window.showInformationMessage(vscode.l10n.t('Keybinding Conflict Scanner: Reverted {0} resolution(s).', active.length));
+    } else if (action.type === 'revert') {
+      await resolver.revertResolution(action.record);
+      outputChannel.appendLine(`[History] Reverted: ${action.record.summary}`);
+      vscode.window.showInformationMessage(vscode.l10n.t('Keybinding Conflict Scanner: Reverted "{0}".', action.record.summary));
+    } else {
+      await resolver.restoreBackup(action.record);
+      outputChannel.appendLine(`[History] Restored backup from before: ${action.record.summary}`);
+      vscode.window.showInformationMessage(vscode.l10n.t('Keybinding Conflict Scanner: keybindings.json restored from backup.'));
+    }
+  } catch (error) {
+    presenter.showError(
+      error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+    );
+    return;
+  }
+
+  await refreshConflictView();
 }
 
 /**
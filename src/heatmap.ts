@@ -0,0 +1,80 @@
+import { formatKeybinding } from './keys';
+import { getKeyboardLayout, KEYBOARD_ROWS } from './keyboardLayouts';
+import { WhenClauseAnalyzer } from './whenClause';
+import { HeatmapKey, HeatmapKeyState, KeyChord, KeybindingInfo, KeybindingPlatform, KeyboardLayoutId } from './types';
+
+/**
+ * Works out which keys of a keyboard are taken for a modifier combination
+ */
+export class KeyboardHeatmap {
+  private platform: KeybindingPlatform;
+  private layoutId: KeyboardLayoutId;
+  private whenAnalyzer = new WhenClauseAnalyzer();
+  private bindingsByKey = new Map<string, KeybindingInfo[]>();
+  private chordsByPrefix = new Map<string, KeybindingInfo[]>();
+
+  constructor(bindings: KeybindingInfo[], platform: KeybindingPlatform, layoutId: KeyboardLayoutId) {
+    this.platform = platform;
+    this.layoutId = layoutId;
+
+    for (const binding of bindings) {
+      if (binding.platform !== platform) {
+        continue;
+      }
+
+      const spaceIndex = binding.key.indexOf(' ');
+      const map = spaceIndex < 0 ? this.bindingsByKey : this.chordsByPrefix;
+      const key = spaceIndex < 0 ? binding.key : binding.key.substring(0, spaceIndex);
+      map.set(key, [...(map.get(key) ?? []), binding]);
+    }
+  }
+
+  /**
+   * Gets the keyboard rows with the occupancy of each key under the given modifiers
+   * Keys the layout doesn't have are left out
+   */
+  public getRows(modifiers: Omit<KeyChord, 'keyCode'>): HeatmapKey[][] {
+    const layout = getKeyboardLayout(this.layoutId);
+
+    return KEYBOARD_ROWS.map(row => row.flatMap(code => {
+      const label = layout.getLabel(code) ?? layout.getCharacter(code);
+      if (!label) {
+        return [];
+      }
+
+      // Keys VS Code has no name for on this layout are bound by scan code
+      const keyCode = layout.getLabel(code) ?? `[${code}]`;
+      const key = formatKeybinding({ chords: [{ ...modifiers, keyCode }] }, this.platform);
+      const bindings = this.bindingsByKey.get(key) ?? [];
+      const chords = this.chordsByPrefix.get(key) ?? [];
+
+      return [{ code, label, key, state: this.getState(bindings, chords), bindings, chords }];
+    }));
+  }
+
+  private getState(bindings: KeybindingInfo[], chords: KeybindingInfo[]): HeatmapKeyState {
+    // Owners from different extensions whose 'when' clauses can be active together
+    for (let i = 0; i < bindings.length; i++) {
+      for (let j = i + 1; j < bindings.length; j++) {
+        if (bindings[i].extensionId !== bindings[j].extensionId &&
+          this.whenAnalyzer.canOverlap(bindings[i].when, bindings[j].when)) {
+          return 'conflict';
+        }
+      }
+    }
+
+    // A single key that shadows another extension's chords
+    const shadows = bindings.some(binding => chords.some(chord =>
+      chord.extensionId !== binding.extensionId &&
+      this.whenAnalyzer.canOverlap(chord.when, binding.when)
+    ));
+    if (shadows) {
+      return 'conflict';
+    }
+
+    if (bindings.length > 0) {
+      return 'occupied';
+    }
+    return chords.length > 0 ? 'prefix' : 'free';
+  }
+}
@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import { KeyboardHeatmap } from './heatmap';
+import { KeyChord, KeybindingInfo, KeybindingPlatform, KeyboardLayoutId } from './types';
+
+type Modifiers = Omit<KeyChord, 'keyCode'>;
+
+/**
+ * Modifier names as printed on each platform's keyboard
+ */
+const MODIFIER_LABELS: Record<KeybindingPlatform, Record<keyof Modifiers, string>> = {
+  win: { ctrl: 'Ctrl', shift: 'Shift', alt: 'Alt', meta: 'Win' },
+  mac: { ctrl: 'Control', shift: 'Shift', alt: 'Option', meta: 'Cmd' },
+  linux: { ctrl: 'Ctrl', shift: 'Shift', alt: 'Alt', meta: 'Super' }
+};
+
+/**
+ * Messages the webview sends to the extension
+ */
+type HeatmapMessage =
+  | { type: 'ready' }
+  | { type: 'setModifiers'; modifiers: Modifiers }
+  | { type: 'reassignTo'; key: string };
+
+/**
+ * Webview showing a keyboard coloured by how many bindings occupy each key
+ * Only one panel is open at a time
+ */
+export class HeatmapPanel {
+  private static current?: HeatmapPanel;
+
+  private panel: vscode.WebviewPanel;
+  private heatmap: KeyboardHeatmap;
+  private platform: KeybindingPlatform;
+  private layoutId: KeyboardLayoutId;
+  private modifiers: Modifiers = { ctrl: true, shift: false, alt: false, meta: false };
+  private onFreeKeySelected: (key: string) => Promise<void>;
+
+  /**
+   * Opens the heatmap, or brings the open one to front with the new bindings
+   * onFreeKeySelected is called when a free key is clicked
+   */
+  public static show(
+    bindings: KeybindingInfo[],
+    platform: KeybindingPlatform,
+    layoutId: KeyboardLayoutId,
+    onFreeKeySelected: (key: string) => Promise<void>
+  ): void {
+    if (HeatmapPanel.current) {
+      HeatmapPanel.current.onFreeKeySelected = onFreeKeySelected;
+      HeatmapPanel.current.setBindings(bindings, platform, layoutId);
+      HeatmapPanel.current.panel.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'keybindingConflictScanner.heatmap',
+      vscode.l10n.t('Keyboard Heatmap'),
+      vscode.ViewColumn.Active,
+      { enableScripts: true, localResourceRoots: [] }
+    );
+    HeatmapPanel.current = new HeatmapPanel(panel, bindings, platform, layoutId, onFreeKeySelected);
+  }
+
+  /**
+   * Updates the open heatmap, if any, after bindings have changed
+   */
+  public static refresh(bindings: KeybindingInfo[]): void {
+    const current = HeatmapPanel.current;
+    current?.setBindings(bindings, current.platform, current.layoutId);
+  }
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    bindings: KeybindingInfo[],
+    platform: KeybindingPlatform,
+    layoutId: KeyboardLayoutId,
+    onFreeKeySelected: (key: string) => Promise<void>
+  ) {
+    this.panel = panel;
+    this.platform = platform;
+    this.layoutId = layoutId;
+    this.heatmap = new KeyboardHeatmap(bindings, platform, layoutId);
+    this.onFreeKeySelected = onFreeKeySelected;
+
+    this.panel.webview.html = this.getHtml();
+    this.panel.webview.onDidReceiveMessage((message: HeatmapMessage) => this.handleMessage(message));
+    this.panel.onDidDispose(() => {
+      HeatmapPanel.current = undefined;
+    });
+  }
+
+  private setBindings(bindings: KeybindingInfo[], platform: KeybindingPlatform, layoutId: KeyboardLayoutId): void {
+    this.platform = platform;
+    this.layoutId = layoutId;
+    this.heatmap = new KeyboardHeatmap(bindings, platform, layoutId);
+    this.postUpdate();
+  }
+
+  private async handleMessage(message: HeatmapMessage): Promise<void> {
+    if (message.type === 'ready') {
+      this.postUpdate();
+    } else if (message.type === 'setModifiers') {
+      this.modifiers = message.modifiers;
+      this.postUpdate();
+    } else if (message.type === 'reassignTo') {
+      await this.onFreeKeySelected(message.key);
+    }
+  }
+
+  private postUpdate(): void {
+    this.panel.webview.postMessage({
+      type: 'update',
+      modifiers: this.modifiers,
+      modifierLabels: MODIFIER_LABELS[this.platform],
+      rows: this.heatmap.getRows(this.modifiers).map(row => row.map(key => ({
+        code: key.code,
+        label: key.label,
+        key: key.key,
+        state: key.state,
+        owners: key.bindings.map(b => ({ command: b.command, extensionName: b.extensionName, when: b.when })),
+        chords: key.chords.map(b => ({ command: b.command, extensionName: b.extensionName, key: b.key }))
+      })))
+    });
+  }
+
+  private getHtml(): string {
+    const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+
+    return `<!DOCTYPE html>
+<html lang="${vscode.env.language}">
+<head>
+  <meta charset="utf-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <title>${vscode.l10n.t('Keyboard Heatmap')}</title>
+  <style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 1rem; }
+    .modifiers { margin-bottom: 1rem; display: flex; gap: 1rem; align-items: center; }
+    .row { display: flex; gap: 4px; margin-bottom: 4px; }
+    .key {
+      min-width: 40px; height: 40px; padding: 0 4px; box-sizing: border-box;
+      display: flex; align-items: center; justify-content: center;
+      border: 1px solid var(--vscode-panel-border); border-radius: 4px;
+      font-family: var(--vscode-editor-font-family); cursor: default; user-select: none;
+    }
+    .key.wide { min-width: 72px; }
+    .key.space { min-width: 240px; }
+    .key.free { background: color-mix(in srgb, var(--vscode-charts-green) 35%, transparent); cursor: pointer; }
+    .key.free:hover { outline: 2px solid var(--vscode-focusBorder); }
+    .key.occupied { background: color-mix(in srgb, var(--vscode-charts-yellow) 35%, transparent); }
+    .key.prefix { background: color-mix(in srgb, var(--vscode-charts-blue) 35%, transparent); }
+    .key.conflict { background: color-mix(in srgb, var(--vscode-charts-red) 50%, transparent); }
+    .legend { display: flex; gap: 1rem; margin: 1rem 0; }
+    .legend .key { min-width: 20px; height: 20px; }
+    .legend span { display: flex; gap: 4px; align-items: center; }
+    #details { margin-top: 1rem; min-height: 6rem; white-space: pre-wrap; font-family: var(--vscode-editor-font-family); }
+  </style>
+</head>
+<body>
+  <div class="modifiers" id="modifiers"></div>
+  <div id="keyboard"></div>
+  <div class="legend">
+    <span><span class="key free"></span>${vscode.l10n.t('Free (click to reassign a keybinding to it)')}</span>
+    <span><span class="key occupied"></span>${vscode.l10n.t('One owner')}</span>
+    <span><span class="key prefix"></span>${vscode.l10n.t('Starts chords')}</span>
+    <span><span class="key conflict"></span>${vscode.l10n.t('Conflicting')}</span>
+  </div>
+  <div id="details">${vscode.l10n.t('Hover a key to see what is bound to it.')}</div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const WIDE_KEYS = new Set(['Backspace', 'Tab', 'CapsLock', 'Enter', 'Escape']);
+    let modifiers;
+
+    function describe(key) {
+      const lines = [key.key];
+      for (const owner of key.owners) {
+        lines.push('  ' + owner.command + ' (' + owner.extensionName + ')' + (owner.when ? ' when ' + owner.when : ''));
+      }
+      for (const chord of key.chords) {
+        lines.push('  ' + chord.key + ': ' + chord.command + ' (' + chord.extensionName + ')');
+      }
+      if (key.owners.length === 0 && key.chords.length === 0) {
+        lines.push('  ' + ${JSON.stringify(vscode.l10n.t('Free'))});
+      }
+      return lines.join('\\n');
+    }
+
+    function renderModifiers(labels) {
+      const container = document.getElementById('modifiers');
+      container.textContent = '';
+      for (const name of ['ctrl', 'shift', 'alt', 'meta']) {
+        const label = document.createElement('label');
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = modifiers[name];
+        checkbox.addEventListener('change', () => {
+          modifiers = { ...modifiers, [name]: checkbox.checked };
+          vscode.postMessage({ type: 'setModifiers', modifiers });
+        });
+        label.append(checkbox, ' ' + labels[name]);
+        container.append(label);
+      }
+    }
+
+    function renderKeyboard(rows) {
+      const keyboard = document.getElementById('keyboard');
+      const details = document.getElementById('details');
+      keyboard.textContent = '';
+      for (const row of rows) {
+        const rowElement = document.createElement('div');
+        rowElement.className = 'row';
+        for (const key of row) {
+          const keyElement = document.createElement('div');
+          keyElement.className = 'key ' + key.state + (WIDE_KEYS.has(key.code) ? ' wide' : '') + (key.code === 'Space' ? ' space' : '');
+          keyElement.textContent = key.label;
+          keyElement.title = describe(key);
+          keyElement.addEventListener('mouseenter', () => details.textContent = describe(key));
+          if (key.state === 'free') {
+            keyElement.addEventListener('click', () => vscode.postMessage({ type: 'reassignTo', key: key.key }));
+          }
+          rowElement.append(keyElement);
+        }
+        keyboard.append(rowElement);
+      }
+    }
+
+    window.addEventListener('message', event => {
+      if (event.data.type === 'update') {
+        modifiers = event.data.modifiers;
+        renderModifiers(event.data.modifierLabels);
+        renderKeyboard(event.data.rows);
+      }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,128 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { KeybindingChange, ResolutionRecord } from './types';
+import { t } from './l10n';
+
+/**
+ * Maximum number of resolutions kept in the journal
+ */
+const MAX_RECORDS = 100;
+
+/**
+ * Persistent journal of applied resolutions, with a backup of keybindings.json before each one
+ * Stored under the extension's global storage directory
+ */
+export class ResolutionHistory {
+  private readonly journalPath: string;
+  private readonly backupDir: string;
+  private readonly log?: (message: string) => void;
+
+  constructor(storageDir: string, log?: (message: string) => void) {
+    this.journalPath = path.join(storageDir, 'resolution-history.json');
+    this.backupDir = path.join(storageDir, 'backups');
+    this.log = log;
+  }
+
+  /**
+   * Records an applied resolution and backs up the file contents from before it
+   */
+  public record(
+    actionType: ResolutionRecord['actionType'],
+    summary: string,
+    keybindingsPath: string,
+    changes: KeybindingChange[],
+    previousContent: string
+  ): ResolutionRecord {
+    fs.mkdirSync(this.backupDir, { recursive: true });
+
+    // Two resolutions can be recorded within the same millisecond, so the time alone isn't unique
+    const now = new Date();
+    const id = `${now.getTime()}-${crypto.randomBytes(4).toString('hex')}`;
+    const backupFile = path.join(this.backupDir, `keybindings-${id}.json`);
+    fs.writeFileSync(backupFile, previousContent, 'utf8');
+
+    const record: ResolutionRecord = {
+      id,
+      timestamp: now.toISOString(),
+      actionType,
+      summary,
+      keybindingsPath,
+      changes,
+      backupFile,
+      reverted: false
+    };
+
+    const records = [record, ...this.getRecords()];
+
+    // Drop the oldest records together with their backups
+    for (const old of records.splice(MAX_RECORDS)) {
+      fs.rmSync(old.backupFile, { force: true });
+    }
+
+    this.writeRecords(records);
+    return record;
+  }
+
+  /**
+   * Gets all recorded resolutions, newest first
+   */
+  public getRecords(): ResolutionRecord[] {
+    try {
+      if (!fs.existsSync(this.journalPath)) {
+        return [];
+      }
+      const records = JSON.parse(fs.readFileSync(this.journalPath, 'utf8'));
+      // The journal is written newest first; sorting keeps that order for records of the same time
+      return Array.isArray(records)
+        ? (records as ResolutionRecord[]).sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+        : [];
+    } catch (error) {
+      this.log?.(t('Failed to read the resolution history: {0}', error instanceof Error ? error.message : String(error)));
+      return [];
+    }
+  }
+
+  /**
+   * Gets a resolution together with every resolution recorded after it, newest first
+   */
+  public getRecordsSince(record: ResolutionRecord): ResolutionRecord[] {
+    const records = this.getRecords();
+    const index = records.findIndex(r => r.id === record.id);
+    return index < 0 ? [] : records.slice(0, index + 1);
+  }
+
+  /**
+   * Gets the most recent resolution that hasn't been reverted
+   */
+  public getLastActive(): ResolutionRecord | undefined {
+    return this.getRecords().find(r => !r.reverted);
+  }
+
+  /**
+   * Marks a resolution as reverted
+   */
+  public markReverted(id: string): void {
+    const records = this.getRecords();
+    const record = records.find(r => r.id === id);
+    if (record) {
+      record.reverted = true;
+      this.writeRecords(records);
+    }
+  }
+
+  /**
+   * Reads the keybindings.json contents saved before a resolution
+   */
+  public readBackup(record: ResolutionRecord): string {
+    if (!fs.existsSync(record.backupFile)) {
+      throw new Error(t('Backup file not found: {0}', record.backupFile));
+    }
+    return fs.readFileSync(record.backupFile, 'utf8');
+  }
+
+  private writeRecords(records: ResolutionRecord[]): void {
+    fs.mkdirSync(path.dirname(this.journalPath), { recursive: true });
+    fs.writeFileSync(this.journalPath, JSON.stringify(records, null, 2), 'utf8');
+  }
+}
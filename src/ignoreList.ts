@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { ConflictGroup, IgnoredConflict } from './types';
+import { IgnoredConflictMatcher, isValidIgnoredConflict } from './ignoredConflicts';
+
+/**
+ * Conflicts the user has acknowledged, stored in the 'ignoredConflicts' user setting
+ */
+export class IgnoreList {
+  private entries: IgnoredConflict[];
+  private matcher: IgnoredConflictMatcher;
+
+  constructor() {
+    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+    this.entries = config.get<IgnoredConflict[]>('ignoredConflicts', []).filter(entry => isValidIgnoredConflict(entry));
+    this.matcher = new IgnoredConflictMatcher(this.entries);
+  }
+
+  /**
+   * Gets all entries, in the order they were added
+   */
+  public getEntries(): IgnoredConflict[] {
+    return this.entries;
+  }
+
+  /**
+   * Checks whether all conflicts of an extension are ignored
+   */
+  public isExtensionIgnored(extensionId: string): boolean {
+    return this.matcher.isExtensionIgnored(extensionId);
+  }
+
+  /**
+   * Checks whether a conflict was ignored
+   * A new binding on the same key brings the conflict back, since its command wasn't acknowledged
+   */
+  public isConflictIgnored(group: ConflictGroup): boolean {
+    return this.matcher.isConflictIgnored(group);
+  }
+
+  /**
+   * Ignores the given conflicts
+   */
+  public async ignoreConflicts(groups: ConflictGroup[]): Promise<void> {
+    const added = groups
+      .filter(group => !this.isConflictIgnored(group))
+      .map(group => ({
+        key: group.key,
+        commands: Array.from(new Set(group.bindings.map(b => b.command))).sort()
+      }));
+    await this.save([...this.entries, ...added]);
+  }
+
+  /**
+   * Ignores every conflict the given extensions take part in
+   */
+  public async ignoreExtensions(extensionIds: string[]): Promise<void> {
+    const added = Array.from(new Set(extensionIds))
+      .filter(id => !this.isExtensionIgnored(id))
+      .map(extensionId => ({ extensionId }));
+    await this.save([...this.entries, ...added]);
+  }
+
+  /**
+   * Removes entries from the list
+   */
+  public async remove(removed: IgnoredConflict[]): Promise<void> {
+    await this.save(this.entries.filter(entry => !removed.includes(entry)));
+  }
+
+  private async save(entries: IgnoredConflict[]): Promise<void> {
+    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+    await config.update('ignoredConflicts', entries, vscode.ConfigurationTarget.Global);
+    this.entries = entries;
+    this.matcher = new IgnoredConflictMatcher(entries);
+  }
+}
+
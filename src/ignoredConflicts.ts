@@ -0,0 +1,38 @@
+import { ConflictFilter } from './conflictDetector';
+import { ConflictGroup, IgnoredConflict } from './types';
+
+/**
+ * Matches conflicts and extensions against the acknowledged entries of the 'ignoredConflicts' setting
+ */
+export class IgnoredConflictMatcher implements ConflictFilter {
+  constructor(private readonly entries: IgnoredConflict[]) {}
+
+  /**
+   * Checks whether all conflicts of an extension are ignored
+   */
+  public isExtensionIgnored(extensionId: string): boolean {
+    return this.entries.some(entry => 'extensionId' in entry && entry.extensionId === extensionId);
+  }
+
+  /**
+   * Checks whether a conflict was ignored
+   * A new binding on the same key brings the conflict back, since its command wasn't acknowledged
+   */
+  public isConflictIgnored(group: ConflictGroup): boolean {
+    return this.entries.some(entry =>
+      'key' in entry &&
+      entry.key === group.key &&
+      group.bindings.every(b => entry.commands.includes(b.command))
+    );
+  }
+}
+
+/**
+ * Skips hand-edited entries that don't have the expected shape
+ */
+export function isValidIgnoredConflict(entry: any): entry is IgnoredConflict {
+  if (typeof entry?.extensionId === 'string') {
+    return true;
+  }
+  return typeof entry?.key === 'string' && Array.isArray(entry.commands);
+}
@@ -0,0 +1,489 @@
+import { t } from './l10n';
+
+/**
+ * Helpers for JSON with comments (the format of VS Code's keybindings files)
+ */
+
+/**
+ * A value in a parsed JSONC document, with its position in the source text
+ */
+interface JsoncNode {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+  offset: number;
+  length: number;
+  value?: any;
+  elements?: JsoncNode[];
+  properties?: JsoncProperty[];
+  /** Offsets of the commas following each element or property */
+  commaOffsets?: number[];
+  /** Offset of a comma after the last element or property, if any */
+  trailingCommaOffset?: number;
+}
+
+interface JsoncProperty {
+  key: string;
+  offset: number;
+  value: JsoncNode;
+}
+
+/**
+ * A text replacement in the document
+ */
+interface TextEdit {
+  offset: number;
+  length: number;
+  text: string;
+}
+
+/**
+ * Parses JSONC text, allowing comments and trailing commas
+ * Throws with the line and column of the first syntax error
+ */
+export function parseJsonc(text: string): any {
+  return toValue(new JsoncParser(text).parse());
+}
+
+/**
+ * Gets where the value at a path of property names and array indexes is in JSONC text, if the path exists
+ * Throws like parseJsonc when the text isn't valid
+ */
+export function getJsoncRange(text: string, path: (string | number)[]): { offset: number; length: number } | undefined {
+  let node: JsoncNode | undefined = new JsoncParser(text).parse();
+
+  for (const segment of path) {
+    node = typeof segment === 'number'
+      ? node.elements?.[segment]
+      : node.properties?.find(p => p.key === segment)?.value;
+    if (!node) {
+      return undefined;
+    }
+  }
+
+  return { offset: node.offset, length: node.length };
+}
+
+/**
+ * An editable keybindings.json document
+ * Edits are applied to the original text so comments, trailing commas
+ * and indentation outside the edited entries are preserved
+ */
+export class KeybindingsDocument {
+  private text: string;
+  private root!: JsoncNode;
+
+  /**
+   * Parses the document, throwing if it isn't a valid JSONC array
+   * An empty document is treated as an empty array
+   */
+  constructor(text: string) {
+    this.text = text.trim() ? text : '[]';
+    this.reparse();
+  }
+
+  /**
+   * Gets the current parsed entries
+   */
+  public get entries(): any[] {
+    return this.root.elements!.map(toValue);
+  }
+
+  /**
+   * Gets the current document text
+   */
+  public getText(): string {
+    return this.text;
+  }
+
+  /**
+   * Gets where the entry at the given index is in the text
+   */
+  public getEntryRange(index: number): { offset: number; length: number } {
+    const entry = this.root.elements![index];
+    return { offset: entry.offset, length: entry.length };
+  }
+
+  /**
+   * Gets where a property's value of the entry at the given index is in the text, if the entry has it
+   */
+  public getPropertyRange(index: number, property: string): { offset: number; length: number } | undefined {
+    const value = this.root.elements![index]?.properties?.find(p => p.key === property)?.value;
+    return value ? { offset: value.offset, length: value.length } : undefined;
+  }
+
+  /**
+   * Sets a property on the entry at the given index, adding it if missing
+   */
+  public setProperty(index: number, property: string, value: any): void {
+    const entry = this.getEntryNode(index);
+    const existing = entry.properties!.find(p => p.key === property);
+
+    if (existing) {
+      this.replace(existing.value.offset, existing.value.length, JSON.stringify(value));
+      return;
+    }
+
+    const pair = `${JSON.stringify(property)}: ${JSON.stringify(value)}`;
+    const last = entry.properties![entry.properties!.length - 1];
+
+    if (!last) {
+      this.replace(entry.offset + 1, 0, ` ${pair} `);
+      return;
+    }
+
+    // Place the new property on its own line when the entry is multi-line
+    const lastEnd = last.value.offset + last.value.length;
+    const multiLine = this.text.substring(entry.offset, lastEnd).includes('\n');
+    const separator = multiLine ? `${this.getEol()}${this.getLineIndent(last.offset)}` : ' ';
+    const insertAt = entry.trailingCommaOffset !== undefined ? entry.trailingCommaOffset + 1 : lastEnd;
+    const prefix = entry.trailingCommaOffset !== undefined ? '' : ',';
+    const suffix = entry.trailingCommaOffset !== undefined ? ',' : '';
+
+    this.replace(insertAt, 0, `${prefix}${separator}${pair}${suffix}`);
+  }
+
+  /**
+   * Removes a property from the entry at the given index
+   */
+  public removeProperty(index: number, property: string): void {
+    const entry = this.getEntryNode(index);
+    const properties = entry.properties!;
+    const position = properties.findIndex(p => p.key === property);
+    if (position < 0) {
+      return;
+    }
+
+    if (properties.length === 1) {
+      this.replace(entry.offset + 1, entry.length - 2, '');
+      return;
+    }
+
+    const target = properties[position];
+    this.removeItem(entry, position, properties.length, target.offset, target.value.offset + target.value.length);
+  }
+
+  /**
+   * Appends a new entry at the end of the array, matching the file's indentation
+   */
+  public append(entry: object): void {
+    const array = this.root;
+    const elements = array.elements!;
+    const eol = this.getEol();
+    const closeOffset = array.offset + array.length - 1;
+
+    const last = elements[elements.length - 1];
+    const indentUnit = this.detectIndentUnit();
+    const elementIndent = last
+      ? this.getLineIndent(last.offset)
+      : this.getLineIndent(array.offset) + indentUnit;
+
+    const body = this.formatEntry(entry, elementIndent, indentUnit, eol);
+    const hasTrailingComma = array.trailingCommaOffset !== undefined;
+
+    // Insert on a new line before the closing bracket (or right before it if it isn't on its own line)
+    const lineStart = this.text.lastIndexOf('\n', closeOffset - 1) + 1;
+    const bracketOnOwnLine = /^\s*$/.test(this.text.substring(lineStart, closeOffset));
+    const insertAt = bracketOnOwnLine ? lineStart : closeOffset;
+    const insertion = bracketOnOwnLine
+      ? `${elementIndent}${body}${hasTrailingComma ? ',' : ''}${eol}`
+      : `${eol}${elementIndent}${body}${hasTrailingComma ? ',' : ''}${eol}${this.getLineIndent(array.offset)}`;
+
+    const edits: TextEdit[] = [{ offset: insertAt, length: 0, text: insertion }];
+    if (last && !hasTrailingComma) {
+      edits.push({ offset: last.offset + last.length, length: 0, text: ',' });
+    }
+    this.applyEdits(edits);
+  }
+
+  /**
+   * Removes the entry at the given index, together with its separating comma
+   */
+  public remove(index: number): void {
+    const target = this.getEntryNode(index);
+    this.removeItem(this.root, index, this.root.elements!.length, target.offset, target.offset + target.length);
+  }
+
+  /**
+   * Removes an element or property of a list, spanning start to end, together with its comma
+   * A comment after it on the same line goes with it; comments on other lines belong to its neighbours and are kept
+   */
+  private removeItem(list: JsoncNode, index: number, count: number, start: number, end: number): void {
+    const commas = list.commaOffsets!;
+    const comma = commas[index];
+    const edits: TextEdit[] = [];
+
+    // Without a comma of its own, the last item takes the previous item's comma with it
+    if (comma === undefined && index > 0 && index === count - 1) {
+      edits.push({ offset: commas[index - 1], length: 1, text: '' });
+    }
+    end = comma !== undefined ? comma + 1 : end;
+
+    const lineStart = this.text.lastIndexOf('\n', start - 1) + 1;
+    const rest = /^[ \t]*(?:\/\/[^\r\n]*)?(?:\r?\n|$)/.exec(this.text.substring(end));
+    if (rest && /^[ \t]*$/.test(this.text.substring(lineStart, start))) {
+      // The item has its lines to itself: remove them whole
+      start = lineStart;
+      end += rest[0].length;
+    } else if (comma !== undefined) {
+      end += /^[ \t]*/.exec(this.text.substring(end))![0].length;
+    } else {
+      start -= /[ \t]*$/.exec(this.text.substring(0, start))![0].length;
+    }
+
+    edits.push({ offset: start, length: end - start, text: '' });
+    this.applyEdits(edits);
+  }
+
+  private getEntryNode(index: number): JsoncNode {
+    const entry = this.root.elements![index];
+    if (!entry || entry.type !== 'object') {
+      throw new Error(t('keybindings.json entry {0} is not an object', index));
+    }
+    return entry;
+  }
+
+  private replace(offset: number, length: number, text: string): void {
+    this.applyEdits([{ offset, length, text }]);
+  }
+
+  /**
+   * Applies non-overlapping edits back-to-front so earlier offsets stay valid,
+   * then re-parses the result
+   */
+  private applyEdits(edits: TextEdit[]): void {
+    const sorted = [...edits].sort((a, b) => b.offset - a.offset);
+    let text = this.text;
+    for (const edit of sorted) {
+      text = text.substring(0, edit.offset) + edit.text + text.substring(edit.offset + edit.length);
+    }
+
+    const previous = this.text;
+    this.text = text;
+    try {
+      this.reparse();
+    } catch (error) {
+      this.text = previous;
+      this.reparse();
+      throw error;
+    }
+  }
+
+  private reparse(): void {
+    const root = new JsoncParser(this.text).parse();
+    if (root.type !== 'array') {
+      throw new Error(t('keybindings.json must contain an array of keybindings'));
+    }
+    this.root = root;
+  }
+
+  /**
+   * Formats an entry as a multi-line object, like VS Code's own keybindings editor
+   */
+  private formatEntry(entry: object, indent: string, unit: string, eol: string): string {
+    const lines = Object.entries(entry)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${indent}${unit}${JSON.stringify(key)}: ${JSON.stringify(value)}`);
+    return `{${eol}${lines.join(`,${eol}`)}${eol}${indent}}`;
+  }
+
+  private getEol(): string {
+    return this.text.includes('\r\n') ? '\r\n' : '\n';
+  }
+
+  private getLineIndent(offset: number): string {
+    const lineStart = this.text.lastIndexOf('\n', offset - 1) + 1;
+    const match = /^[ \t]*/.exec(this.text.substring(lineStart, offset));
+    return match ? match[0] : '';
+  }
+
+  /**
+   * Detects one level of indentation from the existing entries
+   */
+  private detectIndentUnit(): string {
+    for (const element of this.root.elements!) {
+      const indent = this.getLineIndent(element.offset);
+      if (indent) {
+        return indent.startsWith('\t') ? '\t' : indent;
+      }
+    }
+    return '  ';
+  }
+}
+
+/**
+ * Converts a parse tree node into a plain value
+ */
+function toValue(node: JsoncNode): any {
+  switch (node.type) {
+    case 'array':
+      return node.elements!.map(toValue);
+    case 'object': {
+      const result: Record<string, any> = {};
+      for (const property of node.properties!) {
+        result[property.key] = toValue(property.value);
+      }
+      return result;
+    }
+    default:
+      return node.value;
+  }
+}
+
+/**
+ * Recursive descent JSONC parser that records source offsets
+ */
+class JsoncParser {
+  private position = 0;
+
+  constructor(private readonly text: string) {}
+
+  public parse(): JsoncNode {
+    const node = this.parseValue();
+    this.skipTrivia();
+    if (this.position < this.text.length) {
+      this.fail(t('end of file'));
+    }
+    return node;
+  }
+
+  private parseValue(): JsoncNode {
+    this.skipTrivia();
+    const ch = this.text[this.position];
+
+    if (ch === '[') {
+      return this.parseArray();
+    }
+    if (ch === '{') {
+      return this.parseObject();
+    }
+    if (ch === '"') {
+      return this.parseString();
+    }
+
+    const literal = /^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(this.text.substring(this.position));
+    if (!literal) {
+      this.fail(t('a value'));
+    }
+
+    const offset = this.position;
+    this.position += literal![0].length;
+    const value = JSON.parse(literal![0]);
+    const type = value === null ? 'null' : typeof value === 'boolean' ? 'boolean' : 'number';
+    return { type, offset, length: literal![0].length, value };
+  }
+
+  private parseArray(): JsoncNode {
+    const offset = this.position++;
+    const node: JsoncNode = { type: 'array', offset, length: 0, elements: [], commaOffsets: [] };
+
+    this.parseList(']', () => node.elements!.push(this.parseValue()), node);
+
+    node.length = this.position - offset;
+    return node;
+  }
+
+  private parseObject(): JsoncNode {
+    const offset = this.position++;
+    const node: JsoncNode = { type: 'object', offset, length: 0, properties: [], commaOffsets: [] };
+
+    this.parseList('}', () => {
+      this.skipTrivia();
+      if (this.text[this.position] !== '"') {
+        this.fail(t('a property name'));
+      }
+      const key = this.parseString();
+      this.skipTrivia();
+      if (this.text[this.position] !== ':') {
+        this.fail('":"');
+      }
+      this.position++;
+      node.properties!.push({ key: key.value, offset: key.offset, value: this.parseValue() });
+    }, node);
+
+    node.length = this.position - offset;
+    return node;
+  }
+
+  /**
+   * Parses comma-separated items up to the closing character, allowing a trailing comma
+   */
+  private parseList(close: string, parseItem: () => void, node: JsoncNode): void {
+    this.skipTrivia();
+    if (this.text[this.position] === close) {
+      this.position++;
+      return;
+    }
+
+    while (true) {
+      parseItem();
+      this.skipTrivia();
+
+      if (this.text[this.position] === close) {
+        this.position++;
+        return;
+      }
+      if (this.text[this.position] !== ',') {
+        this.fail(`"," or "${close}"`);
+      }
+
+      const commaOffset = this.position++;
+      node.commaOffsets!.push(commaOffset);
+      this.skipTrivia();
+      if (this.text[this.position] === close) {
+        node.trailingCommaOffset = commaOffset;
+        this.position++;
+        return;
+      }
+    }
+  }
+
+  private parseString(): JsoncNode {
+    const offset = this.position;
+    let i = offset + 1;
+
+    while (i < this.text.length && this.text[i] !== '"') {
+      if (this.text[i] === '\n') {
+        break;
+      }
+      i += this.text[i] === '\\' ? 2 : 1;
+    }
+
+    if (this.text[i] !== '"') {
+      this.fail(t('a closing quote'));
+    }
+
+    const raw = this.text.substring(offset, i + 1);
+    this.position = i + 1;
+    return { type: 'string', offset, length: raw.length, value: JSON.parse(raw) };
+  }
+
+  /**
+   * Skips whitespace and comments
+   */
+  private skipTrivia(): void {
+    while (this.position < this.text.length) {
+      const ch = this.text[this.position];
+
+      if (/\s/.test(ch) || ch === '\uFEFF') {
+        this.position++;
+      } else if (this.text.startsWith('//', this.position)) {
+        const end = this.text.indexOf('\n', this.position);
+        this.position = end < 0 ? this.text.length : end;
+      } else if (this.text.startsWith('/*', this.position)) {
+        const end = this.text.indexOf('*/', this.position + 2);
+        if (end < 0) {
+          this.fail(t('end of comment'));
+        }
+        this.position = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private fail(expected: string): never {
+    const before = this.text.substring(0, this.position);
+    const line = before.split('\n').length;
+    const column = this.position - before.lastIndexOf('\n');
+    throw new Error(t('Invalid JSON at line {0}, column {1}: expected {2}', line, column, expected));
+  }
+}
@@ -0,0 +1,259 @@
+import * as vscode from 'vscode';
+import { formatRecordedKeybinding } from './keys';
+import { KeyChord, KeybindingInfo, KeyboardLayoutId } from './types';
+
+/**
+ * What the recorder needs to know about the keybinding being reassigned
+ * validate checks a canonical key the same way the reassign input box does
+ */
+export interface KeyRecorderOptions {
+  binding: KeybindingInfo;
+  layoutId: KeyboardLayoutId;
+  suggestions: string[];
+  validate: (key: string) => string | vscode.InputBoxValidationMessage | undefined;
+}
+
+/**
+ * Messages the webview sends to the extension
+ * Recorded chords carry the KeyboardEvent.code of the pressed key as keyCode
+ */
+type KeyRecorderMessage =
+  | { type: 'ready' }
+  | { type: 'record'; chords: KeyChord[] }
+  | { type: 'save' }
+  | { type: 'cancel' };
+
+/**
+ * Webview that records a new keybinding from real key presses, chords included,
+ * and checks it for conflicts while it is being pressed
+ * Only one recorder is open at a time
+ */
+export class KeyRecorderPanel {
+  private static current?: KeyRecorderPanel;
+
+  private panel: vscode.WebviewPanel;
+  private options: KeyRecorderOptions;
+  private key?: string;
+  private validation?: string | vscode.InputBoxValidationMessage;
+  private resolve: (key: string | undefined) => void;
+
+  /**
+   * Opens the recorder and resolves with the recorded key in canonical form,
+   * or undefined if the panel is cancelled or closed
+   */
+  public static record(options: KeyRecorderOptions): Promise<string | undefined> {
+    KeyRecorderPanel.current?.panel.dispose();
+
+    return new Promise(resolve => {
+      const panel = vscode.window.createWebviewPanel(
+        'keybindingConflictScanner.keyRecorder',
+        vscode.l10n.t('Record Keybinding'),
+        vscode.ViewColumn.Active,
+        { enableScripts: true, localResourceRoots: [] }
+      );
+      KeyRecorderPanel.current = new KeyRecorderPanel(panel, options, resolve);
+    });
+  }
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    options: KeyRecorderOptions,
+    resolve: (key: string | undefined) => void
+  ) {
+    this.panel = panel;
+    this.options = options;
+    this.resolve = resolve;
+
+    this.panel.webview.html = this.getHtml();
+    this.panel.webview.onDidReceiveMessage((message: KeyRecorderMessage) => this.handleMessage(message));
+    this.panel.onDidDispose(() => {
+      KeyRecorderPanel.current = undefined;
+      this.resolve(undefined);
+    });
+  }
+
+  private handleMessage(message: KeyRecorderMessage): void {
+    if (message.type === 'ready') {
+      this.postUpdate();
+    } else if (message.type === 'record') {
+      this.setChords(message.chords);
+      this.postUpdate();
+    } else if (message.type === 'save') {
+      if (this.canSave()) {
+        this.finish(this.key);
+      }
+    } else if (message.type === 'cancel') {
+      this.finish(undefined);
+    }
+  }
+
+  private setChords(chords: KeyChord[]): void {
+    this.key = undefined;
+    this.validation = undefined;
+    if (chords.length === 0) {
+      return;
+    }
+
+    try {
+      this.key = formatRecordedKeybinding(chords, this.options.binding.platform, this.options.layoutId);
+      this.validation = this.options.validate(this.key);
+    } catch {
+      this.key = undefined;
+    }
+  }
+
+  /**
+   * Like the input box, a plain message blocks saving and an info message doesn't
+   */
+  private canSave(): boolean {
+    return this.key !== undefined && typeof this.validation !== 'string';
+  }
+
+  private postUpdate(): void {
+    const validation = this.validation;
+
+    this.panel.webview.postMessage({
+      type: 'update',
+      command: this.options.binding.command,
+      currentKey: this.options.binding.key,
+      suggestions: this.options.suggestions,
+      key: this.key,
+      message: typeof validation === 'string' ? validation : validation?.message,
+      severity: typeof validation === 'string' ? 'error' : 'info',
+      canSave: this.canSave()
+    });
+  }
+
+  private finish(key: string | undefined): void {
+    // Resolve before disposing, so the dispose handler's undefined is ignored
+    this.resolve(key);
+    this.panel.dispose();
+  }
+
+  private getHtml(): string {
+    const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+
+    return `<!DOCTYPE html>
+<html lang="${vscode.env.language}">
+<head>
+  <meta charset="utf-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <title>${vscode.l10n.t('Record Keybinding')}</title>
+  <style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 1rem; }
+    #recorder {
+      margin: 1rem 0; padding: 2rem 1rem; text-align: center; outline: none;
+      border: 1px dashed var(--vscode-panel-border); border-radius: 4px;
+      font-family: var(--vscode-editor-font-family); font-size: 1.6rem;
+    }
+    #recorder:focus { border: 1px solid var(--vscode-focusBorder); }
+    #recorder .pending { opacity: 0.6; }
+    #message { min-height: 1.5rem; }
+    #message.error { color: var(--vscode-errorForeground); }
+    .hint { color: var(--vscode-descriptionForeground); }
+    .buttons { display: flex; gap: 0.5rem; margin-top: 1rem; }
+    button {
+      padding: 4px 12px; border: none; border-radius: 2px; cursor: pointer;
+      color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground);
+    }
+    button.primary { color: var(--vscode-button-foreground); background: var(--vscode-button-background); }
+    button:disabled { opacity: 0.5; cursor: default; }
+  </style>
+</head>
+<body>
+  <div><strong id="command"></strong> <span class="hint" id="current"></span></div>
+  <div id="recorder" tabindex="0"></div>
+  <div id="message"></div>
+  <div class="hint" id="suggestions"></div>
+  <div class="buttons">
+    <button class="primary" id="save" disabled>${vscode.l10n.t('Save')}</button>
+    <button id="clear">${vscode.l10n.t('Clear')}</button>
+    <button id="cancel">${vscode.l10n.t('Cancel')}</button>
+  </div>
+  <p class="hint">${vscode.l10n.t('Press a key combination, then a second one for a chord like ctrl+k ctrl+s. Pressing a third starts over. Shortcuts the operating system handles itself can\'t be recorded.')}</p>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const MODIFIER_CODES = new Set(['ControlLeft', 'ControlRight', 'ShiftLeft', 'ShiftRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight', 'OSLeft', 'OSRight']);
+    const recorder = document.getElementById('recorder');
+    const MAX_CHORDS = 2;
+    let chords = [];
+    let key;
+
+    function getModifiers(event) {
+      return { ctrl: event.ctrlKey, shift: event.shiftKey, alt: event.altKey, meta: event.metaKey };
+    }
+
+    function describeModifiers(modifiers) {
+      return ['ctrl', 'shift', 'alt', 'meta'].filter(name => modifiers[name]).map(name => name + '+').join('');
+    }
+
+    function render(pendingModifiers) {
+      recorder.textContent = '';
+      if (key) {
+        recorder.append(key);
+      }
+      if (pendingModifiers || !key) {
+        const pending = document.createElement('span');
+        pending.className = 'pending';
+        pending.textContent = (key ? ' ' : '') + (pendingModifiers ? describeModifiers(pendingModifiers) : '') + '…';
+        recorder.append(pending);
+      }
+    }
+
+    // Capture key presses before VS Code's webview host forwards them as keybindings
+    window.addEventListener('keydown', event => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.isComposing || !event.code) {
+        return;
+      }
+      if (MODIFIER_CODES.has(event.code)) {
+        render(getModifiers(event));
+        return;
+      }
+
+      chords = chords.length >= MAX_CHORDS ? [] : chords;
+      chords.push({ ...getModifiers(event), keyCode: event.code });
+      vscode.postMessage({ type: 'record', chords });
+    }, true);
+
+    window.addEventListener('keyup', event => {
+      event.preventDefault();
+      event.stopPropagation();
+      render();
+    }, true);
+
+    document.getElementById('save').addEventListener('click', () => vscode.postMessage({ type: 'save' }));
+    document.getElementById('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+    document.getElementById('clear').addEventListener('click', () => {
+      chords = [];
+      vscode.postMessage({ type: 'record', chords });
+      recorder.focus();
+    });
+
+    window.addEventListener('message', event => {
+      if (event.data.type !== 'update') {
+        return;
+      }
+      const data = event.data;
+      key = data.key;
+      document.getElementById('command').textContent = data.command;
+      document.getElementById('current').textContent = ${JSON.stringify(vscode.l10n.t('currently'))} + ' ' + data.currentKey;
+      document.getElementById('suggestions').textContent = data.suggestions.length > 0
+        ? ${JSON.stringify(vscode.l10n.t('Free keys nearby:'))} + ' ' + data.suggestions.join(', ')
+        : '';
+      const message = document.getElementById('message');
+      message.textContent = data.message || '';
+      message.className = data.severity;
+      document.getElementById('save').disabled = !data.canSave;
+      render();
+    });
+
+    recorder.focus();
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BindingInventory, DIAGNOSTIC_SOURCE, DocumentDiagnostics, toRange } from './diagnostics';
+import { KeybindingsPathResolver } from './paths';
+import { KeybindingsLinter } from './keybindingsLinter';
+import { KeybindingsDocument } from './jsonc';
+import { ConflictPresenter } from './presenter';
+import { getCurrentPlatform } from './platform';
+import { normalizeKeybinding, tryParseKeybinding } from './keys';
+import { USER_EXTENSION_ID } from './conflictDetector';
+import { KeybindingEntry, KeybindingInfo, KeyboardLayoutId } from './types';
+
+/**
+ * Reports conflicts, unknown commands and malformed keys while keybindings.json is edited,
+ * and offers quick fixes for them
+ */
+export class KeybindingsDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private pathResolver: KeybindingsPathResolver;
+  private documents: DocumentDiagnostics<KeybindingsLinter>;
+
+  constructor(inventory: BindingInventory, pathResolver: KeybindingsPathResolver) {
+    this.pathResolver = pathResolver;
+    this.documents = new DocumentDiagnostics(inventory, {
+      name: 'keybindingConflictScanner',
+      isChecked: document => this.isKeybindingsFile(document),
+      createLinter: inventory => this.createLinter(inventory)
+    });
+  }
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    const problems = this.documents.getProblems(document);
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+        continue;
+      }
+
+      const problem = problems.find(p =>
+        p.kind === diagnostic.code &&
+        toRange(document, p).isEqual(diagnostic.range)
+      );
+      if (!problem) {
+        continue;
+      }
+
+      if (problem.kind === 'conflict') {
+        // Only bindings from VS Code or extensions can be removed with a '-command' entry
+        for (const binding of problem.bindings.filter(b => b.source !== 'user')) {
+          const action = this.createEditAction(
+            vscode.l10n.t('Disable {0} ({1}) on {2}', binding.command, binding.extensionName, binding.key),
+            document,
+            diagnostic,
+            keybindings => {
+              const entry: KeybindingEntry = { key: binding.key, command: `-${binding.command}` };
+              if (binding.when) {
+                entry.when = binding.when;
+              }
+              keybindings.append(entry);
+            }
+          );
+
+          // Disabling the other binding keeps the key the user just typed
+          action.isPreferred = actions.every(a => !a.isPreferred);
+          actions.push(action);
+        }
+      }
+
+      if (problem.kind === 'conflict' || problem.kind === 'malformedKey') {
+        const action = new vscode.CodeAction(
+          problem.kind === 'conflict' ? vscode.l10n.t('Pick a free key...') : vscode.l10n.t('Enter a new key...'),
+          vscode.CodeActionKind.QuickFix
+        );
+        action.diagnostics = [diagnostic];
+        action.command = {
+          command: 'keybinding-conflict-scanner.pickFreeKeyForEntry',
+          title: action.title,
+          arguments: [document.uri, problem.index]
+        };
+        actions.push(action);
+      }
+
+      if (problem.kind === 'unknownCommand') {
+        actions.push(this.createEditAction(
+          vscode.l10n.t('Remove this keybinding'),
+          document,
+          diagnostic,
+          keybindings => keybindings.remove(problem.index)
+        ));
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Asks for a new key for an entry of keybindings.json, suggesting free keys near the current one
+   */
+  public async pickFreeKey(uri: vscode.Uri, index: number): Promise<void> {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (!document) {
+      return;
+    }
+
+    const presenter = new ConflictPresenter();
+
+    try {
+      const text = document.getText();
+      const kb = new KeybindingsDocument(text).entries[index];
+      if (typeof kb?.command !== 'string') {
+        return;
+      }
+
+      const platform = getCurrentPlatform();
+      const layout = this.getKeyboardLayout();
+      const binding: KeybindingInfo = {
+        key: typeof kb.key === 'string' && tryParseKeybinding(kb.key) ? normalizeKeybinding(kb.key, platform, layout) : String(kb.key ?? ''),
+        command: kb.command,
+        when: typeof kb.when === 'string' ? kb.when : undefined,
+        extensionId: USER_EXTENSION_ID,
+        extensionName: vscode.l10n.t('User keybinding'),
+        source: 'user',
+        platform
+      };
+
+      const linter = await this.documents.getLinter();
+      const newKey = await presenter.promptNewKey(binding, linter.getActiveBindings(text, index));
+      if (!newKey || document.isClosed) {
+        return;
+      }
+
+      await vscode.workspace.applyEdit(this.createEdit(document, keybindings => keybindings.setProperty(index, 'key', newKey)));
+    } catch (error) {
+      presenter.showError(
+        error instanceof Error ? error.message : vscode.l10n.t('An unknown error occurred')
+      );
+    }
+  }
+
+  public dispose(): void {
+    this.documents.dispose();
+  }
+
+  private createEditAction(
+    title: string,
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    edit: (keybindings: KeybindingsDocument) => void
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.edit = this.createEdit(document, edit);
+    return action;
+  }
+
+  /**
+   * Turns an edit of the parsed document into a single text replacement covering only the changed part
+   */
+  private createEdit(document: vscode.TextDocument, edit: (keybindings: KeybindingsDocument) => void): vscode.WorkspaceEdit {
+    const before = document.getText();
+    const keybindings = new KeybindingsDocument(before);
+    edit(keybindings);
+    const after = keybindings.getText();
+
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < before.length - start && end < after.length - start &&
+      before[before.length - 1 - end] === after[after.length - 1 - end]
+    ) {
+      end++;
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.replace(
+      document.uri,
+      new vscode.Range(document.positionAt(start), document.positionAt(before.length - end)),
+      after.substring(start, after.length - end)
+    );
+    return workspaceEdit;
+  }
+
+  private async createLinter(inventory: KeybindingInfo[]): Promise<KeybindingsLinter> {
+    // Commands of extensions that haven't activated yet are only known from their manifests
+    const knownCommands = new Set(await vscode.commands.getCommands());
+    for (const extension of vscode.extensions.all) {
+      const commands = extension.packageJSON?.contributes?.commands ?? [];
+      for (const contribution of Array.isArray(commands) ? commands : [commands]) {
+        knownCommands.add(contribution.command);
+      }
+    }
+    inventory.forEach(b => knownCommands.add(b.command));
+
+    return new KeybindingsLinter(inventory, knownCommands, getCurrentPlatform(), this.getKeyboardLayout());
+  }
+
+  private isKeybindingsFile(document: vscode.TextDocument): boolean {
+    const caseInsensitive = process.platform === 'win32' || process.platform === 'darwin';
+    const normalize = (filePath: string) => {
+      const normalized = path.normalize(filePath);
+      return caseInsensitive ? normalized.toLowerCase() : normalized;
+    };
+    return normalize(document.uri.fsPath) === normalize(this.pathResolver.getKeybindingsPath());
+  }
+
+  private getKeyboardLayout(): KeyboardLayoutId {
+    return vscode.workspace.getConfiguration('keybindingConflictScanner').get<KeyboardLayoutId>('keyboardLayout', 'us');
+  }
+}
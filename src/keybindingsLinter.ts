@@ -0,0 +1,168 @@
+import { KeybindingsDocument } from './jsonc';
+import { normalizeKeybinding, parseKeybinding } from './keys';
+import { WhenClauseAnalyzer } from './whenClause';
+import { getUserDisabledCommands, isDisabledByUser, USER_EXTENSION_ID } from './conflictDetector';
+import { t } from './l10n';
+import { KeybindingInfo, KeybindingPlatform, KeybindingProblem, KeyboardLayoutId } from './types';
+
+/**
+ * Checks the entries of keybindings.json against the scanned keybinding inventory
+ * Works on the document text, so unsaved edits are checked as they are typed
+ */
+export class KeybindingsLinter {
+  private inventory: KeybindingInfo[];
+  private knownCommands?: Set<string>;
+  private platform: KeybindingPlatform;
+  private layoutId: KeyboardLayoutId;
+  private whenAnalyzer = new WhenClauseAnalyzer();
+
+  /**
+   * 'inventory' holds the built-in and extension bindings; without 'knownCommands' commands aren't checked
+   */
+  constructor(
+    inventory: KeybindingInfo[],
+    knownCommands: Set<string> | undefined,
+    platform: KeybindingPlatform,
+    layoutId: KeyboardLayoutId
+  ) {
+    this.inventory = inventory.filter(b => b.platform === platform && b.source !== 'user');
+    this.knownCommands = knownCommands;
+    this.platform = platform;
+    this.layoutId = layoutId;
+  }
+
+  /**
+   * Finds the problems in a keybindings.json text
+   * Text that isn't valid JSONC gives no problems; the editor already reports syntax errors
+   */
+  public lint(text: string): KeybindingProblem[] {
+    let document: KeybindingsDocument;
+    try {
+      document = new KeybindingsDocument(text);
+    } catch {
+      return [];
+    }
+
+    const entries = document.entries;
+    const problems: KeybindingProblem[] = [];
+    const userBindings = this.getUserBindings(entries);
+    const available = this.getAvailableBindings(entries);
+
+    entries.forEach((kb, index) => {
+      if (typeof kb !== 'object' || kb === null) {
+        return;
+      }
+
+      const keyRange = document.getPropertyRange(index, 'key');
+      const commandRange = document.getPropertyRange(index, 'command');
+
+      if (keyRange && typeof kb.key === 'string' && kb.key.trim()) {
+        try {
+          parseKeybinding(kb.key);
+        } catch (error) {
+          problems.push({
+            kind: 'malformedKey',
+            index,
+            ...keyRange,
+            message: t('"{0}" is not a valid key: {1}', kb.key, error instanceof Error ? error.message : String(error)),
+            bindings: []
+          });
+        }
+      }
+
+      if (commandRange && typeof kb.command === 'string' && kb.command.replace(/^-/, '') && this.knownCommands) {
+        const command = kb.command.replace(/^-/, '');
+        if (!this.knownCommands.has(command)) {
+          problems.push({
+            kind: 'unknownCommand',
+            index,
+            ...commandRange,
+            message: t('Command "{0}" isn\'t provided by VS Code or any installed extension', command),
+            bindings: []
+          });
+        }
+      }
+
+      const binding = userBindings.get(index);
+      if (binding && keyRange) {
+        const collisions = [
+          ...available.filter(other => this.collides(binding, other)),
+          ...Array.from(userBindings.entries())
+            .filter(([otherIndex, other]) => otherIndex !== index && this.collides(binding, other))
+            .map(([, other]) => other)
+        ];
+
+        if (collisions.length > 0) {
+          problems.push({
+            kind: 'conflict',
+            index,
+            ...keyRange,
+            message: t('{0} is also bound to {1}', binding.key, collisions.map(b => `${b.command} (${b.extensionName})`).join(', ')),
+            bindings: collisions
+          });
+        }
+      }
+    });
+
+    return problems;
+  }
+
+  /**
+   * Gets the bindings in effect with the given text, optionally leaving out one of its entries
+   */
+  public getActiveBindings(text: string, exceptIndex?: number): KeybindingInfo[] {
+    const entries = new KeybindingsDocument(text).entries;
+    const userBindings = Array.from(this.getUserBindings(entries).entries())
+      .filter(([index]) => index !== exceptIndex)
+      .map(([, binding]) => binding);
+    return [...this.getAvailableBindings(entries), ...userBindings];
+  }
+
+  /**
+   * The entries that add a binding, by their index in the file
+   */
+  private getUserBindings(entries: any[]): Map<number, KeybindingInfo> {
+    const bindings = new Map<number, KeybindingInfo>();
+
+    entries.forEach((kb, index) => {
+      if (
+        typeof kb?.command !== 'string' || !kb.command || kb.command.startsWith('-') ||
+        typeof kb.key !== 'string' || !kb.key.trim()
+      ) {
+        return;
+      }
+
+      try {
+        parseKeybinding(kb.key);
+      } catch {
+        return;
+      }
+
+      bindings.set(index, {
+        key: normalizeKeybinding(kb.key, this.platform, this.layoutId),
+        command: kb.command,
+        when: typeof kb.when === 'string' ? kb.when : undefined,
+        extensionId: USER_EXTENSION_ID,
+        extensionName: t('User keybinding'),
+        source: 'user',
+        platform: this.platform
+      });
+    });
+
+    return bindings;
+  }
+
+  /**
+   * Inventory bindings that the file doesn't disable or remove
+   */
+  private getAvailableBindings(entries: any[]): KeybindingInfo[] {
+    const disabled = getUserDisabledCommands(entries, this.platform, this.layoutId);
+    return this.inventory.filter(b => !isDisabledByUser(b, disabled));
+  }
+
+  private collides(binding: KeybindingInfo, other: KeybindingInfo): boolean {
+    return other.key === binding.key &&
+      other.command !== binding.command &&
+      this.whenAnalyzer.canOverlap(other.when, binding.when);
+  }
+}
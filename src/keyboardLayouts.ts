@@ -0,0 +1,176 @@
+import { KeyboardLayoutId } from './types';
+
+/**
+ * Physical keys of the main block, in the order the layout strings below are written:
+ * number row, top row, home row, bottom row
+ */
+const PRINTABLE_CODES = [
+  'Backquote', 'Digit1', 'Digit2', 'Digit3', 'Digit4', 'Digit5', 'Digit6', 'Digit7', 'Digit8', 'Digit9', 'Digit0', 'Minus', 'Equal',
+  'KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT', 'KeyY', 'KeyU', 'KeyI', 'KeyO', 'KeyP', 'BracketLeft', 'BracketRight', 'Backslash',
+  'KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK', 'KeyL', 'Semicolon', 'Quote',
+  'IntlBackslash', 'KeyZ', 'KeyX', 'KeyC', 'KeyV', 'KeyB', 'KeyN', 'KeyM', 'Comma', 'Period', 'Slash'
+];
+
+/**
+ * Unshifted character of each physical key in PRINTABLE_CODES order
+ * A space marks a key that doesn't exist or produces nothing on that layout
+ */
+const LAYOUT_CHARACTERS: Record<KeyboardLayoutId, string> = {
+  us: '`1234567890-=' + 'qwertyuiop[]\\' + 'asdfghjkl;\'' + ' zxcvbnm,./',
+  uk: '`1234567890-=' + 'qwertyuiop[]#' + 'asdfghjkl;\'' + '\\zxcvbnm,./',
+  de: '^1234567890ß´' + 'qwertzuiopü+#' + 'asdfghjklöä' + '<yxcvbnm,.-',
+  ch: '§1234567890\'^' + 'qwertzuiopü¨$' + 'asdfghjklöä' + '<yxcvbnm,.-',
+  fr: '²&é"\'(-è_çà)=' + 'azertyuiop^$*' + 'qsdfghjklmù' + '<wxcvbn,;:!',
+  be: '²&é"\'(§è!çà)-' + 'azertyuiop^$µ' + 'qsdfghjklmù' + '<wxcvbn,;:=',
+  es: 'º1234567890\'¡' + 'qwertyuiop`+ç' + 'asdfghjklñ´' + '<zxcvbnm,.-',
+  it: '\\1234567890\'ì' + 'qwertyuiopè+ù' + 'asdfghjklòà' + '<zxcvbnm,.-',
+  dvorak: '`1234567890[]' + '\',.pyfgcrl/=\\' + 'aoeuidhtns-' + ' ;qjkxbmwvz',
+  colemak: '`1234567890-=' + 'qwfpgjluy;[]\\' + 'arstdhneio\'' + ' zxcvbkm,./'
+};
+
+/**
+ * Physical keys in the order they are drawn on a keyboard, row by row
+ */
+export const KEYBOARD_ROWS: string[][] = [
+  ['Escape', ...Array.from({ length: 12 }, (_, i) => `F${i + 1}`)],
+  [...PRINTABLE_CODES.slice(0, 13), 'Backspace'],
+  ['Tab', ...PRINTABLE_CODES.slice(13, 26)],
+  ['CapsLock', ...PRINTABLE_CODES.slice(26, 37), 'Enter'],
+  PRINTABLE_CODES.slice(37),
+  ['Space', 'Insert', 'Delete', 'Home', 'End', 'PageUp', 'PageDown', 'ArrowLeft', 'ArrowUp', 'ArrowDown', 'ArrowRight']
+];
+
+/**
+ * Display names for the supported layouts
+ */
+export const KEYBOARD_LAYOUT_LABELS: Record<KeyboardLayoutId, string> = {
+  us: 'US (QWERTY)',
+  uk: 'UK (QWERTY)',
+  de: 'German (QWERTZ)',
+  ch: 'Swiss German (QWERTZ)',
+  fr: 'French (AZERTY)',
+  be: 'Belgian (AZERTY)',
+  es: 'Spanish (QWERTY)',
+  it: 'Italian (QWERTY)',
+  dvorak: 'US Dvorak',
+  colemak: 'Colemak'
+};
+
+/**
+ * Keys outside the main block, whose label doesn't depend on the layout
+ */
+const FIXED_CODES = new Map<string, string>([
+  ['Escape', 'escape'], ['Tab', 'tab'], ['Enter', 'enter'], ['Space', 'space'],
+  ['Backspace', 'backspace'], ['Delete', 'delete'], ['Insert', 'insert'],
+  ['Home', 'home'], ['End', 'end'], ['PageUp', 'pageup'], ['PageDown', 'pagedown'],
+  ['ArrowLeft', 'left'], ['ArrowUp', 'up'], ['ArrowRight', 'right'], ['ArrowDown', 'down'],
+  ['CapsLock', 'capslock'], ['NumLock', 'numlock'], ['ScrollLock', 'scrolllock'],
+  ['Pause', 'pausebreak'], ['PrintScreen', 'printscreen'], ['ContextMenu', 'contextmenu'],
+  ['NumpadMultiply', 'numpad_multiply'], ['NumpadAdd', 'numpad_add'], ['NumpadComma', 'numpad_separator'],
+  ['NumpadSubtract', 'numpad_subtract'], ['NumpadDecimal', 'numpad_decimal'], ['NumpadDivide', 'numpad_divide'],
+  ...Array.from({ length: 24 }, (_, i): [string, string] => [`F${i + 1}`, `f${i + 1}`]),
+  ...Array.from({ length: 10 }, (_, i): [string, string] => [`Numpad${i}`, `numpad${i}`])
+]);
+
+/**
+ * Windows OEM virtual key codes, named after their position on a US keyboard
+ */
+const OEM_CODES = new Map<string, string>([
+  ['oem_1', 'Semicolon'], ['oem_plus', 'Equal'], ['oem_comma', 'Comma'], ['oem_minus', 'Minus'],
+  ['oem_period', 'Period'], ['oem_2', 'Slash'], ['oem_3', 'Backquote'], ['oem_4', 'BracketLeft'],
+  ['oem_5', 'Backslash'], ['oem_6', 'BracketRight'], ['oem_7', 'Quote'], ['oem_102', 'IntlBackslash']
+]);
+
+/**
+ * Key labels VS Code understands for keys of the main block
+ */
+const PRINTABLE_LABELS = new Set('abcdefghijklmnopqrstuvwxyz0123456789`-=[]\\;\',./'.split(''));
+
+const layoutCache = new Map<KeyboardLayoutId, KeyboardLayout>();
+
+/**
+ * Gets a (cached) layout by ID
+ */
+export function getKeyboardLayout(id: KeyboardLayoutId): KeyboardLayout {
+  let layout = layoutCache.get(id);
+  if (!layout) {
+    layout = new KeyboardLayout(id);
+    layoutCache.set(id, layout);
+  }
+  return layout;
+}
+
+/**
+ * Maps key codes, scan codes and OEM codes to the physical key they stand for,
+ * and back to the label that key has on a given layout
+ */
+export class KeyboardLayout {
+  private readonly codeToLabel = new Map<string, string>();
+  private readonly labelToCode = new Map<string, string>();
+  private readonly codeToCharacter = new Map<string, string>();
+
+  constructor(public readonly id: KeyboardLayoutId) {
+    const characters = Array.from(LAYOUT_CHARACTERS[id] ?? LAYOUT_CHARACTERS.us);
+
+    PRINTABLE_CODES.forEach((code, index) => {
+      // Digit keys keep their digit label even where the unshifted character differs (e.g. AZERTY)
+      const label = code.startsWith('Digit') ? code.substring(5) : characters[index];
+      if (characters[index] && characters[index] !== ' ') {
+        this.codeToCharacter.set(code, characters[index]);
+      }
+      if (PRINTABLE_LABELS.has(label)) {
+        this.codeToLabel.set(code, label);
+        if (!this.labelToCode.has(label)) {
+          this.labelToCode.set(label, code);
+        }
+      }
+    });
+  }
+
+  /**
+   * Canonicalizes a key code so every spelling of the same physical key compares equal
+   * Returns the layout's label for the key, or the scan code in brackets if it has no label
+   */
+  public canonicalize(keyCode: string): string {
+    const code = this.toPhysicalCode(keyCode);
+    if (!code) {
+      return keyCode;
+    }
+    return this.codeToLabel.get(code) ?? FIXED_CODES.get(code) ?? `[${code}]`;
+  }
+
+  /**
+   * Finds the physical key (as a KeyboardEvent.code name) for a key code
+   * Labels no key produces unshifted on this layout (e.g. '/' on German) have no physical key here;
+   * borrowing the US position would make them collide with whatever this layout puts there
+   */
+  public toPhysicalCode(keyCode: string): string | undefined {
+    const scanCode = /^\[(\w+)\]$/.exec(keyCode);
+    if (scanCode) {
+      return scanCode[1];
+    }
+
+    const oem = OEM_CODES.get(keyCode);
+    if (oem) {
+      return oem;
+    }
+
+    // Labels refer to the key that produces them on this layout
+    return this.labelToCode.get(keyCode);
+  }
+
+  /**
+   * Gets the label of a physical key on this layout
+   */
+  public getLabel(code: string): string | undefined {
+    return this.codeToLabel.get(code) ?? FIXED_CODES.get(code);
+  }
+
+  /**
+   * Gets the character printed on a physical key, or undefined if the layout doesn't have the key
+   * Unlike getLabel, this includes characters VS Code has no key name for (e.g. 'ü')
+   */
+  public getCharacter(code: string): string | undefined {
+    return this.codeToCharacter.get(code) ?? FIXED_CODES.get(code);
+  }
+}
@@ -0,0 +1,218 @@
+import { KeybindingPlatform, KeyboardLayoutId, KeyChord, ParsedKeybinding } from './types';
+import { getCurrentPlatform } from './platform';
+import { getKeyboardLayout } from './keyboardLayouts';
+import { t } from './l10n';
+
+/**
+ * Modifier names accepted by VS Code, mapped to the modifier they stand for
+ */
+const MODIFIER_ALIASES = new Map<string, keyof Omit<KeyChord, 'keyCode'>>([
+  ['ctrl', 'ctrl'],
+  ['control', 'ctrl'],
+  ['shift', 'shift'],
+  ['alt', 'alt'],
+  ['option', 'alt'],
+  ['opt', 'alt'],
+  ['cmd', 'meta'],
+  ['command', 'meta'],
+  ['meta', 'meta'],
+  ['win', 'meta'],
+  ['super', 'meta']
+]);
+
+/**
+ * Alternative spellings of key codes
+ */
+const KEY_CODE_ALIASES = new Map<string, string>([
+  ['esc', 'escape'],
+  ['return', 'enter'],
+  ['del', 'delete'],
+  ['ins', 'insert'],
+  ['pgup', 'pageup'],
+  ['pgdn', 'pagedown'],
+  ['arrowleft', 'left'],
+  ['arrowup', 'up'],
+  ['arrowright', 'right'],
+  ['arrowdown', 'down']
+]);
+
+/**
+ * Key codes VS Code accepts in keybindings
+ */
+const KEY_CODES = new Set<string>([
+  // Letters and digits
+  ...'abcdefghijklmnopqrstuvwxyz0123456789'.split(''),
+  // Function keys
+  ...Array.from({ length: 24 }, (_, i) => `f${i + 1}`),
+  // Punctuation (US layout key labels)
+  '`', '-', '=', '[', ']', '\\', ';', '\'', ',', '.', '/',
+  // Navigation and editing
+  'left', 'up', 'right', 'down', 'pageup', 'pagedown', 'end', 'home',
+  'tab', 'enter', 'escape', 'space', 'backspace', 'delete', 'insert',
+  'pausebreak', 'capslock', 'numlock', 'scrolllock', 'printscreen', 'contextmenu',
+  // Numeric keypad
+  ...Array.from({ length: 10 }, (_, i) => `numpad${i}`),
+  'numpad_multiply', 'numpad_add', 'numpad_separator', 'numpad_subtract', 'numpad_decimal', 'numpad_divide',
+  // OEM virtual key codes
+  'oem_1', 'oem_2', 'oem_3', 'oem_4', 'oem_5', 'oem_6', 'oem_7', 'oem_8', 'oem_102',
+  'oem_plus', 'oem_comma', 'oem_minus', 'oem_period', 'oem_clear', 'abnt_c1', 'abnt_c2',
+  // Media and browser keys
+  'audiovolumemute', 'audiovolumeup', 'audiovolumedown',
+  'browsersearch', 'browserhome', 'browserback', 'browserforward',
+  'mediatracknext', 'mediatrackprevious', 'mediastop', 'mediaplaypause',
+  'launchmediaplayer', 'launchmail', 'launchapp1', 'launchapp2'
+]);
+
+/**
+ * Scan code notation, e.g. [KeyA], [Digit1], [BracketLeft]
+ */
+const SCAN_CODE_PATTERN = /^\[[A-Za-z0-9]+\]$/;
+
+/**
+ * Parses a keybinding string into chords of modifiers and key codes
+ * Throws with a user-readable message if the string isn't a valid keybinding
+ */
+export function parseKeybinding(input: string): ParsedKeybinding {
+  const text = input.trim();
+  if (!text) {
+    throw new Error(t('Please enter a key combination'));
+  }
+
+  // Chords are separated by whitespace: "ctrl+k ctrl+s"
+  return { chords: text.split(/\s+/).map(parseChord) };
+}
+
+/**
+ * Parses a keybinding, returning undefined instead of throwing
+ */
+export function tryParseKeybinding(input: string): ParsedKeybinding | undefined {
+  try {
+    return parseKeybinding(input);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Formats a parsed keybinding in canonical form
+ * Modifiers are ordered ctrl+shift+alt+meta; meta is written as cmd/win/meta depending on the platform
+ */
+export function formatKeybinding(parsed: ParsedKeybinding, platform: KeybindingPlatform = getCurrentPlatform()): string {
+  const metaLabel = platform === 'mac' ? 'cmd' : platform === 'win' ? 'win' : 'meta';
+
+  return parsed.chords
+    .map(chord => {
+      const parts: string[] = [];
+      if (chord.ctrl) {
+        parts.push('ctrl');
+      }
+      if (chord.shift) {
+        parts.push('shift');
+      }
+      if (chord.alt) {
+        parts.push('alt');
+      }
+      if (chord.meta) {
+        parts.push(metaLabel);
+      }
+      parts.push(chord.keyCode);
+      return parts.join('+');
+    })
+    .join(' ');
+}
+
+/**
+ * Normalizes a keybinding string for comparison
+ * Scan codes ([KeyA]), OEM codes (oem_1) and key labels that refer to the same physical key
+ * on the given keyboard layout normalize to the same string
+ * Strings that can't be parsed are lowercased and whitespace-collapsed so they still compare consistently
+ */
+export function normalizeKeybinding(
+  input: string,
+  platform: KeybindingPlatform = getCurrentPlatform(),
+  layoutId: KeyboardLayoutId = 'us'
+): string {
+  const parsed = tryParseKeybinding(input);
+  if (!parsed) {
+    return input.toLowerCase().trim().replace(/\s+/g, ' ');
+  }
+
+  const layout = getKeyboardLayout(layoutId);
+  for (const chord of parsed.chords) {
+    chord.keyCode = layout.canonicalize(chord.keyCode);
+  }
+
+  return formatKeybinding(parsed, platform);
+}
+
+/**
+ * Turns chords recorded from keyboard events, whose keyCode is a KeyboardEvent.code such as 'KeyA',
+ * into a canonical keybinding
+ * The physical key is kept, so the result reads as the key's label on the given keyboard layout
+ */
+export function formatRecordedKeybinding(
+  chords: KeyChord[],
+  platform: KeybindingPlatform = getCurrentPlatform(),
+  layoutId: KeyboardLayoutId = 'us'
+): string {
+  const recorded = chords.map(chord => ({ ...chord, keyCode: `[${chord.keyCode}]` }));
+  if (recorded.length === 0 || recorded.some(chord => !SCAN_CODE_PATTERN.test(chord.keyCode))) {
+    throw new Error(t('Please enter a key combination'));
+  }
+
+  return normalizeKeybinding(formatKeybinding({ chords: recorded }, platform), platform, layoutId);
+}
+
+/**
+ * Parses one chord such as "shift+ctrl+k"
+ */
+function parseChord(text: string): KeyChord {
+  const chord: KeyChord = { ctrl: false, shift: false, alt: false, meta: false, keyCode: '' };
+
+  // '+' itself isn't a VS Code key code, so an empty part always means a malformed chord
+  const parts = text.split('+');
+  if (parts.some(p => !p)) {
+    throw new Error(t('Invalid key combination format (e.g., ctrl+shift+k)'));
+  }
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    const lower = part.toLowerCase();
+    const modifier = MODIFIER_ALIASES.get(lower);
+
+    if (modifier && i < parts.length - 1) {
+      chord[modifier] = true;
+      continue;
+    }
+
+    if (i < parts.length - 1) {
+      throw new Error(t('"{0}" is not a modifier; modifiers must come before the key', part));
+    }
+
+    if (modifier) {
+      throw new Error(t('Cannot create a keybinding with only modifiers'));
+    }
+
+    chord.keyCode = parseKeyCode(part);
+  }
+
+  return chord;
+}
+
+/**
+ * Validates and canonicalizes a key code
+ */
+function parseKeyCode(part: string): string {
+  if (SCAN_CODE_PATTERN.test(part)) {
+    return part;
+  }
+
+  const lower = part.toLowerCase();
+  const keyCode = KEY_CODE_ALIASES.get(lower) ?? lower;
+
+  if (!KEY_CODES.has(keyCode)) {
+    throw new Error(t('"{0}" is not a valid key', part));
+  }
+
+  return keyCode;
+}
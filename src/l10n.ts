@@ -0,0 +1,26 @@
+/**
+ * Formats a message, replacing {0}, {1}, ... with the given arguments
+ */
+export type Translator = (message: string, ...args: (string | number | boolean)[]) => string;
+
+/**
+ * Fills in the placeholders without translating, as the CLI and tests see messages
+ */
+const formatMessage: Translator = (message, ...args) =>
+  message.replace(/\{(\d+)\}/g, (match, index: string) => index in args ? String(args[Number(index)]) : match);
+
+let translator: Translator = formatMessage;
+
+/**
+ * Routes the messages of the modules that don't depend on VS Code through the extension's bundles
+ */
+export function setTranslator(value: Translator): void {
+  translator = value;
+}
+
+/**
+ * Translates a message of a module that doesn't depend on VS Code
+ */
+export function t(message: string, ...args: (string | number | boolean)[]): string {
+  return translator(message, ...args);
+}
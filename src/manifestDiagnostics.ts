@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BindingInventory, DocumentDiagnostics } from './diagnostics';
+import { ManifestLinter } from './manifestLinter';
+import { ALL_PLATFORMS } from './platform';
+import { KeyboardLayoutId } from './types';
+
+/**
+ * Reports collisions between the keybindings an extension under development declares in its
+ * package.json and the ones of VS Code and the installed extensions
+ */
+export class ManifestDiagnostics implements vscode.Disposable {
+  private documents: DocumentDiagnostics<ManifestLinter>;
+
+  constructor(inventory: BindingInventory) {
+    this.documents = new DocumentDiagnostics(inventory, {
+      name: 'keybindingConflictScannerManifest',
+      isChecked: document => this.isExtensionManifest(document),
+      // A published extension runs everywhere, so its keys are checked against all platforms
+      createLinter: inventory => new ManifestLinter(
+        inventory,
+        ALL_PLATFORMS,
+        vscode.workspace.getConfiguration('keybindingConflictScanner').get<KeyboardLayoutId>('keyboardLayout', 'us')
+      )
+    });
+  }
+
+  public dispose(): void {
+    this.documents.dispose();
+  }
+
+  /**
+   * A package.json with keybindings inside an open workspace folder, leaving out installed dependencies
+   * Most package.json files aren't extensions; the installed extensions aren't scanned for them
+   */
+  private isExtensionManifest(document: vscode.TextDocument): boolean {
+    return vscode.workspace.getConfiguration('keybindingConflictScanner').get<boolean>('checkExtensionManifest', true) &&
+      document.uri.scheme === 'file' &&
+      path.basename(document.uri.fsPath) === 'package.json' &&
+      !document.uri.fsPath.split(/[\\/]/).includes('node_modules') &&
+      vscode.workspace.getWorkspaceFolder(document.uri) !== undefined &&
+      /"keybindings"\s*:/.test(document.getText());
+  }
+}
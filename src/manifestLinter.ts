@@ -0,0 +1,163 @@
+import { getJsoncRange, parseJsonc } from './jsonc';
+import { normalizeKeybinding, parseKeybinding } from './keys';
+import { WhenClauseAnalyzer } from './whenClause';
+import { PLATFORM_LABELS } from './platform';
+import { t } from './l10n';
+import { KeybindingInfo, KeybindingPlatform, KeybindingProblem, KeyboardLayoutId } from './types';
+
+/**
+ * Where the keybindings of an extension are declared in its package.json
+ */
+const CONTRIBUTIONS_PATH = ['contributes', 'keybindings'];
+
+/**
+ * A key declared by a contribution, with the path of its value inside the contribution
+ */
+interface DeclaredKey {
+  key: string;
+  path: (string | number)[];
+}
+
+/**
+ * Checks the keybindings an extension declares in its own package.json against the installed ones
+ * Lets extension authors find collisions before publishing
+ */
+export class ManifestLinter {
+  private inventory: KeybindingInfo[];
+  private platforms: KeybindingPlatform[];
+  private layoutId: KeyboardLayoutId;
+  private whenAnalyzer = new WhenClauseAnalyzer();
+
+  /**
+   * 'inventory' holds the built-in and installed extension bindings of the given platforms
+   */
+  constructor(inventory: KeybindingInfo[], platforms: KeybindingPlatform[], layoutId: KeyboardLayoutId) {
+    this.inventory = inventory.filter(b => platforms.includes(b.platform) && b.source !== 'user');
+    this.platforms = platforms;
+    this.layoutId = layoutId;
+  }
+
+  /**
+   * Finds the problems in the keybindings declared by a package.json text
+   * Text that isn't valid JSON or declares no keybindings gives no problems
+   */
+  public lint(text: string): KeybindingProblem[] {
+    let manifest: any;
+    try {
+      manifest = parseJsonc(text);
+    } catch {
+      return [];
+    }
+
+    const declared = manifest?.contributes?.keybindings;
+    if (typeof declared !== 'object' || declared === null) {
+      return [];
+    }
+
+    // A development copy of the extension may be installed too; it doesn't conflict with itself
+    const selfId = manifest.publisher && manifest.name ? `${manifest.publisher}.${manifest.name}`.toLowerCase() : undefined;
+    const inventory = this.inventory.filter(b => b.extensionId.toLowerCase() !== selfId);
+
+    const contributions: any[] = Array.isArray(declared) ? declared : [declared];
+    const problems: KeybindingProblem[] = [];
+
+    contributions.forEach((kb, index) => {
+      if (typeof kb?.command !== 'string' || !kb.command || kb.command.startsWith('-')) {
+        return;
+      }
+
+      const contributionPath = Array.isArray(declared) ? [...CONTRIBUTIONS_PATH, index] : CONTRIBUTIONS_PATH;
+      const locate = (path: (string | number)[]) =>
+        getJsoncRange(text, [...contributionPath, ...path]) ?? getJsoncRange(text, contributionPath)!;
+
+      // The same value (e.g. 'key') can apply to several platforms, so collisions are collected per value
+      const collisionsByValue = new Map<string, { key: string; path: (string | number)[]; bindings: KeybindingInfo[] }>();
+      const malformed = new Set<string>();
+
+      for (const platform of this.platforms) {
+        for (const declaredKey of this.getDeclaredKeys(kb, platform)) {
+          const valueId = declaredKey.path.join('.');
+
+          try {
+            parseKeybinding(declaredKey.key);
+          } catch (error) {
+            if (!malformed.has(valueId)) {
+              malformed.add(valueId);
+              problems.push({
+                kind: 'malformedKey',
+                index,
+                ...locate(declaredKey.path),
+                message: t('"{0}" is not a valid key: {1}', declaredKey.key, error instanceof Error ? error.message : String(error)),
+                bindings: []
+              });
+            }
+            continue;
+          }
+
+          const key = normalizeKeybinding(declaredKey.key, platform, this.layoutId);
+          const collisions = inventory.filter(b =>
+            b.platform === platform &&
+            b.key === key &&
+            b.command !== kb.command &&
+            this.whenAnalyzer.canOverlap(b.when, kb.when)
+          );
+          if (collisions.length === 0) {
+            continue;
+          }
+
+          const entry = collisionsByValue.get(valueId) ?? { ...declaredKey, bindings: [] };
+          entry.bindings.push(...collisions);
+          collisionsByValue.set(valueId, entry);
+        }
+      }
+
+      for (const { key, path, bindings } of collisionsByValue.values()) {
+        problems.push({
+          kind: 'conflict',
+          index,
+          ...locate(path),
+          message: t('{0} conflicts with {1}', key, this.describeCollisions(bindings)),
+          bindings
+        });
+      }
+    });
+
+    return problems;
+  }
+
+  /**
+   * Lists the keys a contribution declares for a platform, with where each one is written
+   * Mirrors getPlatformKeys: the platform-specific value wins over 'key'
+   */
+  private getDeclaredKeys(kb: any, platform: KeybindingPlatform): DeclaredKey[] {
+    const property = kb[platform] ? platform : 'key';
+    const value = kb[property];
+
+    if (Array.isArray(value)) {
+      return value
+        .map((key, i) => ({ key, path: [property, i] }))
+        .filter(declared => typeof declared.key === 'string' && declared.key.trim());
+    }
+    return typeof value === 'string' && value.trim() ? [{ key: value, path: [property] }] : [];
+  }
+
+  /**
+   * Describes the colliding bindings as "Extension: command", naming the platforms when only some of them collide
+   */
+  private describeCollisions(bindings: KeybindingInfo[]): string {
+    const byCommand = new Map<string, KeybindingPlatform[]>();
+    for (const b of bindings) {
+      const label = `${b.extensionName}: ${b.command}`;
+      byCommand.set(label, [...byCommand.get(label) ?? [], b.platform]);
+    }
+
+    return Array.from(byCommand.entries())
+      .map(([label, platforms]) => {
+        const unique = Array.from(new Set(platforms));
+        return this.platforms.length > 1 && unique.length < this.platforms.length
+          ? `${label} (${unique.map(p => PLATFORM_LABELS[p]).join(', ')})`
+          : label;
+      })
+      .join(', ');
+  }
+}
@@ -0,0 +1,243 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ExtensionManifest, KeybindingContribution } from './types';
+import { parseJsonc } from './jsonc';
+import { t } from './l10n';
+
+/**
+ * Where a VSIX package keeps the extension's files
+ */
+const VSIX_ROOT = 'extension/';
+
+/**
+ * ZIP record signatures
+ */
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Reads every extension installed in a directory such as ~/.vscode/extensions
+ * Only the newest version of each extension is kept, and folders VS Code marked as obsolete are skipped
+ * A folder that can't be read is skipped too, and reported through log, so one broken extension doesn't hide the rest
+ */
+export function readExtensionsDirectory(directory: string, log?: (message: string) => void): ExtensionManifest[] {
+  if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    throw new Error(t('Extensions directory not found: {0}', directory));
+  }
+
+  const obsolete = readObsoleteFolders(directory);
+  const manifests = new Map<string, ExtensionManifest>();
+
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.startsWith('.') || obsolete.has(entry.name)) {
+      continue;
+    }
+
+    const folder = path.join(directory, entry.name);
+    let manifest: ExtensionManifest | undefined;
+    try {
+      manifest = readExtensionFolder(folder);
+    } catch (error) {
+      log?.(t('Skipped {0}: {1}', folder, error instanceof Error ? error.message : String(error)));
+      continue;
+    }
+    if (!manifest) {
+      continue;
+    }
+
+    const installed = manifests.get(manifest.id.toLowerCase());
+    if (!installed || compareVersions(manifest.version, installed.version) > 0) {
+      manifests.set(manifest.id.toLowerCase(), manifest);
+    }
+  }
+
+  return Array.from(manifests.values()).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Reads an unpacked extension folder, or returns undefined if it has no package.json
+ */
+export function readExtensionFolder(folder: string): ExtensionManifest | undefined {
+  const packageJsonPath = path.join(folder, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) {
+    return undefined;
+  }
+
+  const nlsPath = path.join(folder, 'package.nls.json');
+  return toManifest(
+    parseManifestFile(fs.readFileSync(packageJsonPath, 'utf8'), packageJsonPath),
+    fs.existsSync(nlsPath) ? parseManifestFile(fs.readFileSync(nlsPath, 'utf8'), nlsPath) : undefined,
+    folder
+  );
+}
+
+/**
+ * Reads the manifest of a packaged extension (.vsix) without unpacking it
+ */
+export function readVsix(file: string): ExtensionManifest {
+  const entries = readZipEntries(fs.readFileSync(file), file, [
+    `${VSIX_ROOT}package.json`,
+    `${VSIX_ROOT}package.nls.json`
+  ]);
+
+  const packageJson = entries.get(`${VSIX_ROOT}package.json`);
+  if (!packageJson) {
+    throw new Error(t('{0} does not contain {1}', file, `${VSIX_ROOT}package.json`));
+  }
+
+  const nls = entries.get(`${VSIX_ROOT}package.nls.json`);
+  return toManifest(
+    parseManifestFile(packageJson.toString('utf8'), file),
+    nls ? parseManifestFile(nls.toString('utf8'), file) : undefined,
+    file
+  );
+}
+
+/**
+ * Picks the fields the scanner needs from a package.json
+ * '%key%' placeholders in the display name are looked up in package.nls.json
+ */
+function toManifest(packageJson: any, nls: any, location: string): ExtensionManifest {
+  if (typeof packageJson?.publisher !== 'string' || typeof packageJson?.name !== 'string') {
+    throw new Error(t('{0}: package.json has no publisher or name', location));
+  }
+
+  const id = `${packageJson.publisher}.${packageJson.name}`;
+  const keybindings = packageJson.contributes?.keybindings;
+
+  return {
+    id,
+    name: localize(packageJson.displayName, nls) || packageJson.name,
+    version: typeof packageJson.version === 'string' ? packageJson.version : '0.0.0',
+    location,
+    keybindings: (Array.isArray(keybindings) ? keybindings : keybindings ? [keybindings] : []) as KeybindingContribution[]
+  };
+}
+
+function localize(value: unknown, nls: any): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const match = /^%(.+)%$/.exec(value);
+  if (!match) {
+    return value;
+  }
+
+  const message = nls?.[match[1]];
+  return typeof message === 'string' ? message : typeof message?.message === 'string' ? message.message : undefined;
+}
+
+function parseManifestFile(text: string, location: string): any {
+  try {
+    // Some manifests start with a byte order mark
+    return parseJsonc(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`${location}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Folders VS Code uninstalled but hasn't deleted yet, listed in the directory's .obsolete file
+ */
+function readObsoleteFolders(directory: string): Set<string> {
+  const obsoletePath = path.join(directory, '.obsolete');
+  if (!fs.existsSync(obsoletePath)) {
+    return new Set();
+  }
+
+  try {
+    const obsolete = JSON.parse(fs.readFileSync(obsoletePath, 'utf8'));
+    return new Set(Object.keys(obsolete).filter(folder => obsolete[folder]));
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Compares dotted version numbers; pre-release suffixes are ignored
+ */
+function compareVersions(a: string, b: string): number {
+  const parse = (version: string) => version.split(/[-+]/)[0].split('.').map(part => parseInt(part, 10) || 0);
+  const partsA = parse(a);
+  const partsB = parse(b);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Extracts the named files from a ZIP archive held in memory
+ * Supports stored and deflated entries, which is what VSIX packages use; ZIP64 archives are rejected
+ */
+function readZipEntries(zip: Buffer, file: string, names: string[]): Map<string, Buffer> {
+  const end = findEndOfCentralDirectory(zip);
+  if (end < 0) {
+    throw new Error(t('{0} is not a ZIP archive', file));
+  }
+
+  const entryCount = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error(t('{0}: ZIP64 archives are not supported', file));
+  }
+
+  const entries = new Map<string, Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error(t('{0}: corrupt ZIP central directory', file));
+    }
+
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localHeader = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!names.includes(name)) {
+      continue;
+    }
+
+    if (zip.readUInt32LE(localHeader) !== LOCAL_FILE_HEADER) {
+      throw new Error(t('{0}: corrupt ZIP entry {1}', file, name));
+    }
+
+    // Sizes in the local header may be zero when a data descriptor follows, so the central directory's are used
+    const dataStart = localHeader + 30 + zip.readUInt16LE(localHeader + 26) + zip.readUInt16LE(localHeader + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      entries.set(name, zlib.inflateRawSync(data));
+    } else {
+      throw new Error(t('{0}: unsupported compression method {1} for {2}', file, method, name));
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Searches backwards for the end of central directory record, which may be followed by a comment
+ */
+function findEndOfCentralDirectory(zip: Buffer): number {
+  const lowest = Math.max(0, zip.length - 22 - 0xffff);
+  for (let offset = zip.length - 22; offset >= lowest; offset--) {
+    if (zip.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { ConflictGroup, NotificationMode } from './types';
+
+/**
+ * globalState key for the conflicts that have been announced and still exist
+ */
+const ANNOUNCED_STATE_KEY = 'notifications.announcedConflicts';
+
+/**
+ * Gets the 'notifications' setting
+ * Until it is set, turning off the 'showNotifications' setting it replaces still means 'never'
+ */
+export function getNotificationMode(): NotificationMode {
+  const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+  const setting = config.inspect<NotificationMode>('notifications');
+  const isSet = setting?.globalValue !== undefined || setting?.workspaceValue !== undefined || setting?.workspaceFolderValue !== undefined;
+
+  if (!isSet && !config.get<boolean>('showNotifications', true)) {
+    return 'never';
+  }
+  return config.get<NotificationMode>('notifications', 'newConflicts');
+}
+
+/**
+ * Decides which conflicts found by automatic checks get a notification
+ * Remembers the announced conflicts across sessions; a conflict that goes away is announced again if it comes back
+ */
+export class ConflictNotifier {
+  private globalState: vscode.Memento;
+
+  constructor(globalState: vscode.Memento) {
+    this.globalState = globalState;
+  }
+
+  /**
+   * Picks the conflicts to announce and records them as announced
+   * On the first check the existing conflicts are only recorded: the status bar already shows them
+   */
+  public async select(conflicts: ConflictGroup[]): Promise<ConflictGroup[]> {
+    const active = conflicts.filter(c => c.severity !== 'none');
+    const announced = this.globalState.get<string[]>(ANNOUNCED_STATE_KEY);
+    await this.globalState.update(ANNOUNCED_STATE_KEY, active.map(getConflictId));
+
+    switch (getNotificationMode()) {
+      case 'never':
+        return [];
+      case 'always':
+        return active;
+      case 'newConflicts':
+        return announced ? active.filter(c => !announced.includes(getConflictId(c))) : [];
+    }
+  }
+}
+
+function getConflictId(conflict: ConflictGroup): string {
+  const commands = conflict.bindings.map(b => b.command).sort();
+  return [conflict.platform, conflict.kind, conflict.key, ...commands].join('\u0000');
+}
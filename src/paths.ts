@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Profile entry in the editor's global storage.json
+ */
+interface StoredProfile {
+  location: string | { path?: string; fsPath?: string };
+  name: string;
+  useDefaultFlags?: { keybindings?: boolean };
+}
+
+/**
+ * Where a resolved keybindings.json path came from
+ */
+export interface ResolvedKeybindingsPath {
+  path: string;
+  reason: string;
+}
+
+/**
+ * Data folder names of known VS Code distributions, by product name
+ */
+const PRODUCT_DATA_FOLDERS = new Map<string, string>([
+  ['Visual Studio Code', 'Code'],
+  ['Visual Studio Code - Insiders', 'Code - Insiders'],
+  ['Visual Studio Code - Exploration', 'Code - Exploration'],
+  ['VSCodium', 'VSCodium'],
+  ['VSCodium - Insiders', 'VSCodium - Insiders'],
+  ['Cursor', 'Cursor'],
+  ['Windsurf', 'Windsurf']
+]);
+
+const DEFAULT_PROFILE_ID = '__default__profile__';
+
+/**
+ * Locates the keybindings.json the running editor actually loads
+ * Handles Insiders, VSCodium, Cursor, portable mode, --user-data-dir and profiles
+ */
+export class KeybindingsPathResolver {
+  private context: vscode.ExtensionContext;
+  private outputChannel?: vscode.OutputChannel;
+  private lastLoggedPath?: string;
+
+  constructor(context: vscode.ExtensionContext, outputChannel?: vscode.OutputChannel) {
+    this.context = context;
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Gets the path to the active keybindings.json
+   */
+  public getKeybindingsPath(): string {
+    const resolved = this.resolve();
+
+    // Log whenever the path changes (e.g. after switching profiles)
+    if (resolved.path !== this.lastLoggedPath) {
+      this.lastLoggedPath = resolved.path;
+      this.outputChannel?.appendLine(`[Paths] Using ${resolved.path} (${resolved.reason})`);
+    }
+
+    return resolved.path;
+  }
+
+  /**
+   * Resolves the keybindings.json path and explains how it was found
+   */
+  public resolve(): ResolvedKeybindingsPath {
+    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+    const override = config.get<string>('keybindingsPath', '').trim();
+    if (override) {
+      return {
+        path: override.replace(/^~(?=$|[\\/])/, os.homedir()),
+        reason: 'keybindingConflictScanner.keybindingsPath setting'
+      };
+    }
+
+    const userDir = this.getUserDataDir();
+    if (userDir) {
+      const profile = this.getActiveProfile(userDir.path);
+      if (profile) {
+        return profile;
+      }
+      return { path: path.join(userDir.path, 'keybindings.json'), reason: userDir.reason };
+    }
+
+    return {
+      path: path.join(this.getFallbackUserDir(), 'keybindings.json'),
+      reason: `default location for ${vscode.env.appName}`
+    };
+  }
+
+  /**
+   * Derives the 'User' folder from the extension's global storage location,
+   * which lives at <user data>/User/globalStorage/<extension id>
+   */
+  private getUserDataDir(): ResolvedKeybindingsPath | undefined {
+    const storageUri = this.context.globalStorageUri;
+    if (storageUri.scheme !== 'file') {
+      return undefined;
+    }
+
+    const globalStorageDir = path.dirname(storageUri.fsPath);
+    if (path.basename(globalStorageDir) !== 'globalStorage') {
+      return undefined;
+    }
+
+    return {
+      path: path.dirname(globalStorageDir),
+      reason: `user data folder of ${vscode.env.appName}`
+    };
+  }
+
+  /**
+   * Finds the profile associated with the current window in storage.json
+   * Returns undefined for the default profile or profiles that share its keybindings
+   */
+  private getActiveProfile(userDir: string): ResolvedKeybindingsPath | undefined {
+    try {
+      const storagePath = path.join(userDir, 'globalStorage', 'storage.json');
+      if (!fs.existsSync(storagePath)) {
+        return undefined;
+      }
+
+      const storage = JSON.parse(fs.readFileSync(storagePath, 'utf8'));
+      const profiles: StoredProfile[] = storage.userDataProfiles || [];
+      const associations = storage.profileAssociations || {};
+
+      // storage.json doesn't say which empty window this is, so its profile is only guessed
+      // when a single empty window has one
+      const workspaceUri = vscode.workspace.workspaceFile ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+      const emptyWindowProfiles = Object.values<string>(associations.emptyWindows || {});
+      const guessed = !workspaceUri;
+      const profileId: string | undefined = workspaceUri
+        ? associations.workspaces?.[workspaceUri.toString()]
+        : emptyWindowProfiles.length === 1 ? emptyWindowProfiles[0] : undefined;
+
+      if (!profileId || profileId === DEFAULT_PROFILE_ID) {
+        return undefined;
+      }
+
+      const profileLocation = this.getProfileLocation(userDir, { location: profileId, name: '' });
+      const profile = profiles.find(p => this.getProfileLocation(userDir, p) === profileLocation);
+      if (!profile || profile.useDefaultFlags?.keybindings) {
+        return undefined;
+      }
+
+      return {
+        path: path.join(this.getProfileLocation(userDir, profile), 'keybindings.json'),
+        reason: guessed ? `profile "${profile.name}", guessed from the only empty window with a profile` : `profile "${profile.name}"`
+      };
+    } catch (error) {
+      this.outputChannel?.appendLine(`[Paths] Failed to read profile information: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Profile locations are stored either as a folder name under User/profiles or as a URI
+   */
+  private getProfileLocation(userDir: string, profile: StoredProfile): string {
+    const location = profile.location;
+    if (typeof location !== 'string') {
+      return location.fsPath || location.path || '';
+    }
+    if (location.includes('://')) {
+      return vscode.Uri.parse(location).fsPath;
+    }
+    return path.join(userDir, 'profiles', location);
+  }
+
+  /**
+   * Well-known 'User' folder for the running product when nothing better is available
+   */
+  private getFallbackUserDir(): string {
+    const portable = process.env.VSCODE_PORTABLE;
+    if (portable) {
+      return path.join(portable, 'user-data', 'User');
+    }
+
+    const folder = PRODUCT_DATA_FOLDERS.get(vscode.env.appName) || 'Code';
+    const homeDir = os.homedir();
+
+    if (process.platform === 'win32') {
+      return path.join(process.env.APPDATA || path.join(homeDir, 'AppData', 'Roaming'), folder, 'User');
+    } else if (process.platform === 'darwin') {
+      return path.join(homeDir, 'Library', 'Application Support', folder, 'User');
+    } else {
+      return path.join(process.env.XDG_CONFIG_HOME || path.join(homeDir, '.config'), folder, 'User');
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { KeybindingPlatform, ScanTarget } from './types';
+
+/**
+ * All platforms a keybinding can be declared for
+ */
+export const ALL_PLATFORMS: KeybindingPlatform[] = ['win', 'mac', 'linux'];
+
+/**
+ * Display names for platforms
+ */
+export const PLATFORM_LABELS: Record<KeybindingPlatform, string> = {
+  win: 'Windows',
+  mac: 'macOS',
+  linux: 'Linux'
+};
+
+/**
+ * Gets the platform the editor is running on
+ */
+export function getCurrentPlatform(): KeybindingPlatform {
+  if (process.platform === 'darwin') {
+    return 'mac';
+  }
+  if (process.platform === 'win32') {
+    return 'win';
+  }
+  return 'linux';
+}
+
+/**
+ * Expands a scan target into the platforms to analyze
+ */
+export function resolveScanTarget(target: ScanTarget): KeybindingPlatform[] {
+  if (target === 'all') {
+    return ALL_PLATFORMS;
+  }
+  if (target === 'current') {
+    return [getCurrentPlatform()];
+  }
+  return [target];
+}
@@ -0,0 +1,147 @@
+import { normalizeKeybinding, tryParseKeybinding } from './keys';
+import { WhenClauseAnalyzer } from './whenClause';
+import {
+  ForbiddenKeybinding,
+  KeybindingInfo,
+  KeybindingPlatform,
+  KeybindingPolicy,
+  KeyboardLayoutId,
+  PolicyException,
+  PolicyViolation,
+  RequiredKeybinding
+} from './types';
+import { parseJsonc } from './jsonc';
+import { t } from './l10n';
+
+/**
+ * Where a workspace keeps its team keybinding policy, relative to the folder root
+ */
+export const POLICY_FILE = '.vscode/keybinding-policy.json';
+
+/**
+ * Reads a policy file, checking the shape of every rule
+ * Throws with the offending rule when the file is malformed
+ */
+export function parsePolicy(text: string): KeybindingPolicy {
+  const raw = parseJsonc(text);
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(t('the policy must be a JSON object'));
+  }
+
+  const required = readRules<RequiredKeybinding>(raw, 'required', rule =>
+    isKey(rule.key) && isNonEmptyString(rule.command) && isOptionalString(rule.when));
+  const forbidden = readRules<ForbiddenKeybinding>(raw, 'forbidden', rule =>
+    isKey(rule.key) && Array.isArray(rule.extensions) && rule.extensions.every(isNonEmptyString));
+  const exceptions = readRules<PolicyException>(raw, 'exceptions', rule =>
+    (rule.key === undefined || isKey(rule.key)) && isOptionalString(rule.extension) && isOptionalString(rule.command) &&
+    (rule.key !== undefined || rule.extension !== undefined || rule.command !== undefined));
+
+  return { required, forbidden, exceptions };
+}
+
+/**
+ * Merges the policies of several workspace folders
+ */
+export function mergePolicies(policies: KeybindingPolicy[]): KeybindingPolicy {
+  return {
+    required: policies.flatMap(p => p.required),
+    forbidden: policies.flatMap(p => p.forbidden),
+    exceptions: policies.flatMap(p => p.exceptions)
+  };
+}
+
+function readRules<T>(raw: any, property: string, isValid: (rule: any) => boolean): T[] {
+  const rules = raw[property] ?? [];
+  if (!Array.isArray(rules)) {
+    throw new Error(t('"{0}" must be an array', property));
+  }
+
+  rules.forEach((rule, index) => {
+    if (typeof rule !== 'object' || rule === null || !isValid(rule)) {
+      throw new Error(t('"{0}" is not a valid rule: {1}', `${property}[${index}]`, JSON.stringify(rule)));
+    }
+  });
+  return rules;
+}
+
+function isKey(value: unknown): boolean {
+  return typeof value === 'string' && tryParseKeybinding(value) !== undefined;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+/**
+ * Checks the keybindings in effect on a platform against a team keybinding policy
+ */
+export class PolicyChecker {
+  private policy: KeybindingPolicy;
+  private platform: KeybindingPlatform;
+  private layoutId: KeyboardLayoutId;
+  private whenAnalyzer = new WhenClauseAnalyzer();
+
+  constructor(policy: KeybindingPolicy, platform: KeybindingPlatform, layoutId: KeyboardLayoutId) {
+    this.policy = policy;
+    this.platform = platform;
+    this.layoutId = layoutId;
+  }
+
+  /**
+   * Lists the rules the bindings break
+   * Bindings of other platforms and bindings matching an exception are left alone
+   */
+  public check(bindings: KeybindingInfo[]): PolicyViolation[] {
+    const onPlatform = bindings.filter(b => b.platform === this.platform);
+    const violations: PolicyViolation[] = [];
+
+    for (const rule of this.policy.required) {
+      const key = this.normalize(rule.key);
+      const owners = onPlatform.filter(b => b.key === key);
+
+      if (!owners.some(b => b.command === rule.command)) {
+        violations.push({ kind: 'missing', key, command: rule.command, when: rule.when, bindings: [] });
+      }
+
+      const taken = owners.filter(b =>
+        b.command !== rule.command &&
+        this.whenAnalyzer.canOverlap(b.when, rule.when) &&
+        !this.isExcepted(b)
+      );
+      if (taken.length > 0) {
+        violations.push({ kind: 'taken', key, command: rule.command, when: rule.when, bindings: taken });
+      }
+    }
+
+    for (const rule of this.policy.forbidden) {
+      const key = this.normalize(rule.key);
+      const forbidden = onPlatform.filter(b =>
+        b.key === key &&
+        b.source === 'extension' &&
+        rule.extensions.some(id => id === '*' || id.toLowerCase() === b.extensionId.toLowerCase()) &&
+        !this.isExcepted(b)
+      );
+      if (forbidden.length > 0) {
+        violations.push({ kind: 'forbidden', key, bindings: forbidden });
+      }
+    }
+
+    return violations;
+  }
+
+  private isExcepted(binding: KeybindingInfo): boolean {
+    return this.policy.exceptions.some(exception =>
+      (exception.key === undefined || this.normalize(exception.key) === binding.key) &&
+      (exception.extension === undefined || exception.extension.toLowerCase() === binding.extensionId.toLowerCase()) &&
+      (exception.command === undefined || exception.command === binding.command)
+    );
+  }
+
+  private normalize(key: string): string {
+    return normalizeKeybinding(key, this.platform, this.layoutId);
+  }
+}
@@ -0,0 +1,31 @@
+import { collectContributedBindings, ConflictDetector, ConflictFilter, UserDisabledCommands } from './conflictDetector';
+import { ExtensionManifest, KeybindingInfo, KeybindingPlatform, KeyboardLayoutId, PreflightResult } from './types';
+
+/**
+ * Runs an extension's declared keybindings through the conflict detection against the current inventory
+ * An installed version of the same extension is left out, since the checked one would replace it
+ */
+export function preflightExtension(
+  extension: ExtensionManifest,
+  inventory: KeybindingInfo[],
+  platforms: KeybindingPlatform[],
+  layoutId: KeyboardLayoutId,
+  options: { filter?: ConflictFilter; userDisabledCommands?: UserDisabledCommands } = {}
+): PreflightResult {
+  const id = extension.id.toLowerCase();
+  const replaced = inventory.filter(b => b.extensionId.toLowerCase() === id);
+  const others = inventory.filter(b => b.extensionId.toLowerCase() !== id);
+
+  const bindings = collectContributedBindings(
+    extension.keybindings,
+    { extensionId: extension.id, extensionName: extension.name, source: 'extension' },
+    platforms,
+    layoutId
+  );
+
+  const conflicts = new ConflictDetector({ filter: options.filter })
+    .findConflicts([...others, ...bindings], platforms, options.userDisabledCommands)
+    .filter(c => c.severity !== 'none' && c.bindings.some(b => b.extensionId === extension.id));
+
+  return { extension, platforms, bindings, replaced, conflicts };
+}
@@ -1,5 +1,40 @@
 import * as vscode from 'vscode';
-import { ConflictGroup, KeybindingInfo, QuickPickConflictItem, ResolutionAction } from './types';
+import { getCurrentPlatform, PLATFORM_LABELS } from './platform';
+import { normalizeKeybinding, parseKeybinding } from './keys';
+import { BUILTIN_EXTENSION_ID, USER_EXTENSION_ID } from './conflictDetector';
+import { KeySuggester } from './suggestions';
+import { KeyRecorderPanel } from './keyRecorderPanel';
+import { AutoResolutionPlan, ConflictGroup, ConflictSeverity, ExtensionManifest, HistoryAction, IgnoredConflict, ScanTarget, KeybindingChangeAction, KeybindingChangeReport, KeybindingInfo, KeyReassignment, KeyboardLayoutId, PolicyViolation, PreflightTarget, QuickPickConflictItem, ReportFormat, ResolutionAction, ResolutionRecord } from './types';
+
+/**
+ * Display label for a conflict severity
+ */
+export function describeSeverity(severity: ConflictSeverity): string {
+  switch (severity) {
+    case 'definite':
+      return vscode.l10n.t('definite');
+    case 'possible':
+      return vscode.l10n.t('possible (overlapping contexts)');
+    case 'none':
+      return vscode.l10n.t('none');
+  }
+}
+
+/**
+ * One-line description of a team keybinding policy violation
+ */
+export function describePolicyViolation(violation: PolicyViolation): string {
+  const owners = violation.bindings.map(b => `${b.command} (${b.extensionName})`).join(', ');
+
+  switch (violation.kind) {
+    case 'missing':
+      return vscode.l10n.t('{0} must run {1}, but it isn\'t bound to it', violation.key, violation.command ?? '');
+    case 'taken':
+      return vscode.l10n.t('{0} must run {1}, but is also bound to {2}', violation.key, violation.command ?? '', owners);
+    case 'forbidden':
+      return vscode.l10n.t('{0} must not be bound by {1}', violation.key, owners);
+  }
+}
 
 /**
  * Presents keybinding conflicts to the user via QuickPick interface
@@ -12,8 +47,11 @@ export class ConflictPresenter {
     conflicts: ConflictGroup[],
     allBindings: KeybindingInfo[]
   ): Promise<ResolutionAction | undefined> {
+    // Bindings whose 'when' clauses never overlap can't clash, so hide them
+    conflicts = conflicts.filter(c => c.severity !== 'none');
+
     if (conflicts.length === 0) {
-      vscode.window.showInformationMessage('Keybinding Conflict Scanner: No conflicts found! 🎉');
+      vscode.window.showInformationMessage(vscode.l10n.t('Keybinding Conflict Scanner: No conflicts found! 🎉'));
       return undefined;
     }
 
@@ -23,42 +61,56 @@ export class ConflictPresenter {
     // Show multi-select QuickPick
     const selected = await vscode.window.showQuickPick(items, {
       canPickMany: true,
-      placeHolder: `Found ${conflicts.length} conflict(s). Select keybindings to resolve (multiple selection allowed)`,
-      title: 'Keybinding Conflicts'
+      placeHolder: vscode.l10n.t('Found {0} conflict(s). Select keybindings to resolve (multiple selection allowed)', conflicts.length),
+      title: vscode.l10n.t('Keybinding Conflicts')
     });
 
     if (!selected || selected.length === 0) {
       return undefined;
     }
 
-    // Extract binding info from selected items
-    const selectedBindings = selected.map(item => item.binding).filter(b => b !== undefined);
-
-    if (selectedBindings.length === 0) {
-      return undefined;
-    }
+    const pickedBindings = selected.map(item => item.binding).filter(b => b !== undefined);
+    const pickedConflicts = Array.from(new Set(selected.map(item => item.conflict).filter(c => c !== undefined)));
+    const pickedExtensions = new Map(pickedBindings.map(b => [b.extensionId, b.extensionName]));
 
     // Ask user what to do with selected bindings
     const action = await vscode.window.showQuickPick(
       [
         {
-          label: '$(trash) Disable',
-          description: 'Disable selected keybindings',
+          label: `$(trash) ${vscode.l10n.t('Disable')}`,
+          description: vscode.l10n.t('Disable selected keybindings'),
           action: 'disable' as const
         },
         {
-          label: '$(edit) Reassign (Direct Input)',
-          description: 'Enter a new key combination',
+          label: `$(edit) ${vscode.l10n.t('Reassign (Direct Input)')}`,
+          description: vscode.l10n.t('Enter a new key combination'),
           action: 'reassign' as const
         },
         {
-          label: '$(gear) Open in Keyboard Shortcuts',
-          description: 'Modify in VS Code Keyboard Shortcuts editor',
+          label: `$(record-keys) ${vscode.l10n.t('Reassign (Record Keys)')}`,
+          description: vscode.l10n.t('Press the new key combination'),
+          action: 'record' as const
+        },
+        {
+          label: `$(gear) ${vscode.l10n.t('Open in Keyboard Shortcuts')}`,
+          description: vscode.l10n.t('Modify in VS Code Keyboard Shortcuts editor'),
           action: 'openSettings' as const
+        },
+        {
+          label: `$(eye-closed) ${vscode.l10n.t('Ignore This Conflict')}`,
+          description: pickedConflicts.length === 1
+            ? vscode.l10n.t('Stop reporting the conflict on "{0}"', pickedConflicts[0].key)
+            : vscode.l10n.t('Stop reporting these {0} conflicts', pickedConflicts.length),
+          action: 'ignore' as const
+        },
+        {
+          label: `$(circle-slash) ${vscode.l10n.t('Ignore All Conflicts from Extension')}`,
+          description: Array.from(pickedExtensions.values()).join(', '),
+          action: 'ignoreExtensions' as const
         }
       ],
       {
-        placeHolder: 'How would you like to resolve this?'
+        placeHolder: vscode.l10n.t('How would you like to resolve this?')
       }
     );
 
@@ -66,51 +118,60 @@ export class ConflictPresenter {
       return undefined;
     }
 
-    // Handle opening Keyboard Shortcuts
-    if (action.action === 'openSettings') {
-      // For multiple selections, open with general search
-      if (selectedBindings.length > 1) {
-        await vscode.commands.executeCommand('workbench.action.openGlobalKeybindings');
-        vscode.window.showInformationMessage(
-          `Search for the selected ${selectedBindings.length} command(s) in Keyboard Shortcuts editor to modify them.`
-        );
-      } else {
-        // For single selection, search for the specific command
-        const command = selectedBindings[0].command;
-        await vscode.commands.executeCommand('workbench.action.openGlobalKeybindings', command);
-        vscode.window.showInformationMessage(
-          `Navigated to search results for "${command}". Click the keybinding to modify it.`
-        );
-      }
+    // Ignoring only changes what is reported, so it works for any platform
+    if (action.action === 'ignore') {
+      return { type: 'ignore', conflicts: pickedConflicts };
+    }
+
+    if (action.action === 'ignoreExtensions') {
+      return { type: 'ignoreExtensions', extensionIds: Array.from(pickedExtensions.keys()) };
+    }
+
+    // keybindings.json only affects this machine, so bindings of other platforms are review-only
+    const currentPlatform = getCurrentPlatform();
+    const selectedBindings = pickedBindings.filter(b => b.platform === currentPlatform);
+
+    if (selectedBindings.length < pickedBindings.length) {
+      vscode.window.showWarningMessage(
+        vscode.l10n.t(
+          'Keybindings for other platforms can only be reviewed here. {0} selected keybinding(s) were skipped; resolve them on a {1} machine.',
+          pickedBindings.length - selectedBindings.length,
+          Array.from(new Set(pickedBindings.filter(b => b.platform !== currentPlatform).map(b => PLATFORM_LABELS[b.platform]))).join('/')
+        )
+      );
+    }
+
+    if (selectedBindings.length === 0) {
       return undefined;
     }
 
-    if (action.action === 'reassign' && selectedBindings.length > 1) {
-      vscode.window.showWarningMessage('Key reassignment can only be done one at a time. Please select only one keybinding.');
+    // Handle opening Keyboard Shortcuts
+    if (action.action === 'openSettings') {
+      await this.openInKeyboardShortcuts(selectedBindings);
       return undefined;
     }
 
-    // If reassign, ask for new key
-    if (action.action === 'reassign') {
-      const currentBinding = selectedBindings[0];
+    // If reassign, ask for new key(s), typed or recorded
+    if (action.action === 'reassign' || action.action === 'record') {
+      const record = action.action === 'record';
+      let reassignments: KeyReassignment[] | undefined;
 
-      const newKey = await vscode.window.showInputBox({
-        prompt: 'Enter new key combination',
-        placeHolder: 'e.g., ctrl+shift+k, ctrl+k v, f12',
-        value: currentBinding.key,  // Pre-fill with current value
-        validateInput: (value) => {
-          return this.validateKeybinding(value, currentBinding, allBindings);
-        }
-      });
+      if (selectedBindings.length > 1) {
+        reassignments = await this.promptBatchReassign(selectedBindings, allBindings, record);
+      } else {
+        const newKey = record
+          ? await this.recordNewKey(selectedBindings[0], allBindings)
+          : await this.promptNewKey(selectedBindings[0], allBindings);
+        reassignments = newKey ? [{ binding: selectedBindings[0], newKey }] : undefined;
+      }
 
-      if (!newKey) {
+      if (!reassignments) {
         return undefined;
       }
 
       return {
         type: 'reassign',
-        bindings: selectedBindings,
-        newKey: newKey.trim(),
+        reassignments,
         allBindings
       };
     }
@@ -122,83 +183,250 @@ export class ConflictPresenter {
   }
 
   /**
-   * Validates keybinding input
+   * Asks for a new key combination for a binding
+   * Returns the key in canonical form, or undefined if cancelled
    */
-  private validateKeybinding(
-    value: string | undefined,
+  public async promptNewKey(
     currentBinding: KeybindingInfo,
-    allBindings: KeybindingInfo[]
-  ): string | undefined {
-    if (!value?.trim()) {
-      return 'Please enter a key combination';
+    allBindings: KeybindingInfo[],
+    reserved: Map<string, KeybindingInfo> = new Map(),
+    initialValue?: string
+  ): Promise<string | undefined> {
+    const suggester = new KeySuggester(allBindings, currentBinding.platform);
+    const suggestions = suggester.suggest(currentBinding, 5, new Set(reserved.keys()));
+
+    const newKey = await vscode.window.showInputBox({
+      title: vscode.l10n.t('Reassign {0}', currentBinding.command),
+      prompt: suggestions.length > 0
+        ? vscode.l10n.t('Enter new key combination. Free keys nearby: {0}', suggestions.join(', '))
+        : vscode.l10n.t('Enter new key combination'),
+      placeHolder: vscode.l10n.t('e.g., ctrl+shift+k, ctrl+k v, f12, alt+pagedown'),
+      value: initialValue ?? currentBinding.key,  // Pre-fill with the proposal or current value
+      validateInput: (value) => {
+        return this.validateKeybinding(value, currentBinding, suggester, reserved);
+      }
+    });
+
+    if (!newKey) {
+      return undefined;
     }
 
-    const normalized = value.toLowerCase().trim();
+    return normalizeKeybinding(newKey, currentBinding.platform, this.getKeyboardLayout());
+  }
 
-    // Check for valid characters (alphanumeric, +, space, f-keys)
-    if (!normalized.match(/^[a-z0-9+\s]+$/)) {
-      return 'Invalid characters detected';
+  /**
+   * Records a new key combination for a binding from real key presses
+   * Returns the key in canonical form, or undefined if cancelled
+   */
+  public recordNewKey(
+    currentBinding: KeybindingInfo,
+    allBindings: KeybindingInfo[],
+    reserved: Map<string, KeybindingInfo> = new Map()
+  ): Promise<string | undefined> {
+    const suggester = new KeySuggester(allBindings, currentBinding.platform);
+
+    return KeyRecorderPanel.record({
+      binding: currentBinding,
+      layoutId: this.getKeyboardLayout(),
+      suggestions: suggester.suggest(currentBinding, 5, new Set(reserved.keys())),
+      validate: key => this.validateKeybinding(key, currentBinding, suggester, reserved)
+    });
+  }
+
+  /**
+   * Proposes a free key for each binding and lets the user accept or edit them
+   * Edited keys are recorded from key presses when record is set, typed otherwise
+   * Returns the reassignments to apply together, or undefined if cancelled
+   */
+  public async promptBatchReassign(
+    bindings: KeybindingInfo[],
+    allBindings: KeybindingInfo[],
+    record = false
+  ): Promise<KeyReassignment[] | undefined> {
+    // Propose keys one after another, so no two bindings get the same key
+    const proposals = new Map<KeybindingInfo, string | undefined>();
+    const proposed = new Set<string>();
+    for (const binding of bindings) {
+      const [suggestion] = new KeySuggester(allBindings, binding.platform).suggest(binding, 1, proposed);
+      proposals.set(binding, suggestion);
+      if (suggestion) {
+        proposed.add(suggestion);
+      }
     }
 
-    // Check for valid modifier keys
-    const validModifiers = ['ctrl', 'alt', 'shift', 'cmd', 'meta', 'win'];
-    const parts = normalized.split(/[\s+]/);
+    for (;;) {
+      const items: (vscode.QuickPickItem & { binding?: KeybindingInfo })[] = [
+        {
+          label: `$(check) ${vscode.l10n.t('Apply All')}`,
+          description: vscode.l10n.t('Reassign {0} keybinding(s)', bindings.length)
+        },
+        ...bindings.map(binding => ({
+          label: `$(edit) ${binding.command}`,
+          description: `${binding.key} → ${proposals.get(binding) ?? vscode.l10n.t('no free key found, select to enter one')}`,
+          detail: `${binding.extensionName}${binding.when ? ` · when: ${binding.when}` : ''}`,
+          binding
+        }))
+      ];
+
+      const selected = await vscode.window.showQuickPick(items, {
+        title: vscode.l10n.t('Reassign {0} Keybindings', bindings.length),
+        placeHolder: vscode.l10n.t('Select a keybinding to edit its proposed key, or apply all')
+      });
+
+      if (!selected) {
+        return undefined;
+      }
 
-    for (const part of parts) {
-      if (!part) {
-        continue;
+      if (!selected.binding) {
+        const missing = bindings.filter(b => !proposals.get(b));
+        if (missing.length > 0) {
+          vscode.window.showWarningMessage(vscode.l10n.t('Enter a new key for {0} first.', missing.map(b => b.command).join(', ')));
+          continue;
+        }
+        return bindings.map(binding => ({ binding, newKey: proposals.get(binding)! }));
       }
 
-      // Check if it's a modifier or valid key
-      const isModifier = validModifiers.includes(part);
-      const isValidKey = part.match(/^([a-z]|f\d+|\d+|[`\-=\[\]\\;',./])$/);
+      // Keys proposed for the other bindings are taken
+      const reserved = new Map<string, KeybindingInfo>();
+      for (const [binding, key] of proposals) {
+        if (key && binding !== selected.binding) {
+          reserved.set(key, binding);
+        }
+      }
 
-      if (!isModifier && !isValidKey) {
-        return `"${part}" is not a valid key`;
+      const newKey = record
+        ? await this.recordNewKey(selected.binding, allBindings, reserved)
+        : await this.promptNewKey(selected.binding, allBindings, reserved, proposals.get(selected.binding));
+      if (newKey) {
+        proposals.set(selected.binding, newKey);
       }
     }
+  }
 
-    // Check for proper format (modifiers should be connected with +, chords with space)
-    const chords = normalized.split(' ');
-    for (const chord of chords) {
-      const keys = chord.split('+');
+  /**
+   * Asks which keybinding to move to a free key
+   * Keybindings that are part of a conflict are listed first
+   */
+  public async pickBindingToMove(
+    key: string,
+    conflicts: ConflictGroup[],
+    bindings: KeybindingInfo[]
+  ): Promise<KeybindingInfo | undefined> {
+    const toItem = (binding: KeybindingInfo) => ({
+      label: binding.command,
+      description: `${binding.key} · ${binding.extensionName}`,
+      detail: binding.when ? `when: ${binding.when}` : undefined,
+      binding
+    });
 
-      // Each chord should have at least one key
-      if (keys.length === 0 || keys.some(k => !k.trim())) {
-        return 'Invalid key combination format (e.g., ctrl+shift+k)';
-      }
+    const conflicting = Array.from(new Set(conflicts.flatMap(c => c.bindings)));
+    const others = bindings
+      .filter(b => !conflicting.includes(b))
+      .sort((a, b) => a.command.localeCompare(b.command));
 
-      // Modifiers should come before the main key
-      const hasModifier = keys.some(k => validModifiers.includes(k));
-      if (hasModifier && keys.length === 1) {
-        return 'Cannot create a keybinding with only modifiers';
-      }
+    const items: (vscode.QuickPickItem & { binding?: KeybindingInfo })[] = [
+      ...(conflicting.length > 0 ? [{ label: vscode.l10n.t('Conflicting keybindings'), kind: vscode.QuickPickItemKind.Separator }] : []),
+      ...conflicting.map(toItem),
+      { label: vscode.l10n.t('All keybindings'), kind: vscode.QuickPickItemKind.Separator },
+      ...others.map(toItem)
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      title: vscode.l10n.t('Move a Keybinding to {0}', key),
+      placeHolder: vscode.l10n.t('Select the keybinding to reassign'),
+      matchOnDescription: true
+    });
+
+    return selected?.binding;
+  }
+
+  /**
+   * Opens the Keyboard Shortcuts editor, searching for the command if only one binding is given
+   */
+  public async openInKeyboardShortcuts(bindings: KeybindingInfo[]): Promise<void> {
+    // For multiple selections, open with general search
+    if (bindings.length > 1) {
+      await vscode.commands.executeCommand('workbench.action.openGlobalKeybindings');
+      vscode.window.showInformationMessage(
+        vscode.l10n.t('Search for the selected {0} command(s) in Keyboard Shortcuts editor to modify them.', bindings.length)
+      );
+    } else {
+      // For single selection, search for the specific command
+      const command = bindings[0].command;
+      await vscode.commands.executeCommand('workbench.action.openGlobalKeybindings', command);
+      vscode.window.showInformationMessage(
+        vscode.l10n.t('Navigated to search results for "{0}". Click the keybinding to modify it.', command)
+      );
     }
+  }
 
-    // Check for conflicts with existing bindings
-    const conflict = allBindings.find(b =>
-      b.key === normalized &&
-      b.command !== currentBinding.command
-    );
+  /**
+   * Gets the keyboard layout typed keys are interpreted with
+   */
+  private getKeyboardLayout(): KeyboardLayoutId {
+    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+    return config.get<KeyboardLayoutId>('keyboardLayout', 'us');
+  }
+
+  /**
+   * Validates keybinding input and previews its canonical form
+   */
+  private validateKeybinding(
+    value: string | undefined,
+    currentBinding: KeybindingInfo,
+    suggester: KeySuggester,
+    reserved: Map<string, KeybindingInfo>
+  ): string | vscode.InputBoxValidationMessage | undefined {
+    if (!value?.trim()) {
+      return vscode.l10n.t('Please enter a key combination');
+    }
+
+    let canonical: string;
+    try {
+      parseKeybinding(value);
+      canonical = normalizeKeybinding(value, currentBinding.platform, this.getKeyboardLayout());
+    } catch (error) {
+      return error instanceof Error ? error.message : vscode.l10n.t('Invalid key combination');
+    }
+
+    // Check for conflicts with existing bindings whose 'when' clause can be active at the same time
+    const conflict = suggester.findCollision(canonical, currentBinding);
 
     if (conflict) {
-      return `⚠️ Conflicts with "${conflict.command}" from "${conflict.extensionName}"`;
+      return vscode.l10n.t('⚠️ "{0}" conflicts with "{1}" from "{2}"', canonical, conflict.command, conflict.extensionName);
+    }
+
+    const proposedFor = reserved.get(canonical);
+    if (proposedFor) {
+      return vscode.l10n.t('⚠️ "{0}" is already proposed for "{1}"', canonical, proposedFor.command);
     }
 
-    return undefined;
+    return {
+      message: vscode.l10n.t('Will be saved as: {0}', canonical),
+      severity: vscode.InputBoxValidationSeverity.Info
+    };
   }
 
   /**
    * Builds QuickPick items from conflict groups
+   * Exact key conflicts come first, followed by a separate prefix shadowing section
    */
   private buildQuickPickItems(conflicts: ConflictGroup[]): QuickPickConflictItem[] {
     const items: QuickPickConflictItem[] = [];
 
-    for (const conflict of conflicts) {
+    const exactConflicts = conflicts.filter(c => c.kind === 'exact');
+    const prefixConflicts = conflicts.filter(c => c.kind === 'prefix');
+
+    // Label each group with its platform when the results aren't just for this machine
+    const currentPlatform = getCurrentPlatform();
+    const showPlatform = conflicts.some(c => c.platform !== currentPlatform);
+    const platformSuffix = (conflict: ConflictGroup) => showPlatform ? ` · ${PLATFORM_LABELS[conflict.platform]}` : '';
+
+    for (const conflict of exactConflicts) {
       // Add separator for each key group
       items.push({
-        label: `$(keyboard) ${conflict.key}`,
-        description: `${conflict.bindings.length} conflict(s)`,
+        label: `$(keyboard) ${conflict.key}${platformSuffix(conflict)}`,
+        description: vscode.l10n.t('{0} conflict(s) · {1}', conflict.bindings.length, describeSeverity(conflict.severity)),
         detail: '',
         kind: vscode.QuickPickItemKind.Separator
       } as any);
@@ -209,7 +437,39 @@ export class ConflictPresenter {
           label: `  ${binding.command}`,
           description: binding.extensionName,
           detail: binding.when ? `when: ${binding.when}` : '',
-          binding
+          binding,
+          conflict
+        });
+      }
+    }
+
+    if (prefixConflicts.length > 0) {
+      items.push({
+        label: vscode.l10n.t('Prefix Shadowing'),
+        description: vscode.l10n.t('single keys that block chords starting with the same key'),
+        detail: '',
+        kind: vscode.QuickPickItemKind.Separator
+      } as any);
+    }
+
+    for (const conflict of prefixConflicts) {
+      const chordCount = conflict.bindings.filter(b => b.key !== conflict.key).length;
+
+      items.push({
+        label: `$(keyboard) ${conflict.key}${platformSuffix(conflict)}`,
+        description: vscode.l10n.t('shadows {0} chord(s) · {1}', chordCount, describeSeverity(conflict.severity)),
+        detail: '',
+        kind: vscode.QuickPickItemKind.Separator
+      } as any);
+
+      // Show the full key so single keys and chords can be told apart
+      for (const binding of conflict.bindings) {
+        items.push({
+          label: `  ${binding.command}`,
+          description: `${binding.extensionName} · ${binding.key}`,
+          detail: binding.when ? `when: ${binding.when}` : '',
+          binding,
+          conflict
         });
       }
     }
@@ -217,12 +477,341 @@ export class ConflictPresenter {
     return items;
   }
 
+  /**
+   * Asks which platform(s) to analyze
+   */
+  public async pickScanTarget(): Promise<ScanTarget | undefined> {
+    const currentPlatform = getCurrentPlatform();
+
+    const items: (vscode.QuickPickItem & { target: ScanTarget })[] = [
+      {
+        label: `$(device-desktop) ${vscode.l10n.t('Current Platform')}`,
+        description: PLATFORM_LABELS[currentPlatform],
+        target: 'current'
+      },
+      {
+        label: `$(globe) ${vscode.l10n.t('All Platforms')}`,
+        description: vscode.l10n.t('Windows, macOS and Linux'),
+        target: 'all'
+      },
+      ...(['win', 'mac', 'linux'] as const).map(platform => ({
+        label: `$(vm) ${PLATFORM_LABELS[platform]}`,
+        description: platform === currentPlatform ? vscode.l10n.t('current') : '',
+        target: platform
+      }))
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: vscode.l10n.t('Select the platform(s) to check for keybinding conflicts'),
+      title: vscode.l10n.t('Scan Conflicts for Platform')
+    });
+
+    return selected?.target;
+  }
+
+  /**
+   * Summarizes what auto-resolve will change and asks for confirmation
+   */
+  public async confirmAutoResolution(plan: AutoResolutionPlan): Promise<boolean> {
+    const disabled = plan.actions.flatMap(action => action.type === 'disable' ? action.bindings : []);
+
+    const lines = plan.decisions.map(decision => {
+      const kept = decision.winners.map(b => b.command).join(', ');
+      const lost = decision.losers.map(b => `${b.command} (${b.extensionName})`).join(', ');
+      return vscode.l10n.t('{0}: keep {1}, disable {2} — {3}', decision.conflict.key, kept, lost, decision.reason);
+    });
+
+    // Keep the dialog readable; the full plan is in the output channel
+    const maxLines = 15;
+    const detail = [
+      ...lines.slice(0, maxLines),
+      ...(lines.length > maxLines ? [vscode.l10n.t('...and {0} more (see the output channel)', lines.length - maxLines)] : []),
+      ...(plan.skipped.length > 0 ? ['', vscode.l10n.t('{0} conflict(s) are not covered by the rules and stay as they are.', plan.skipped.length)] : [])
+    ].join('\n');
+
+    const apply = vscode.l10n.t('Apply');
+    const confirm = await vscode.window.showWarningMessage(
+      vscode.l10n.t('Auto-resolve will disable {0} keybinding(s) to settle {1} conflict(s).', disabled.length, plan.decisions.length),
+      { modal: true, detail },
+      apply
+    );
+
+    return confirm === apply;
+  }
+
+  /**
+   * Lets the user pick which policy violations to fix, all of them selected up front
+   * Missing keys are added to keybindings.json; bindings that break a rule are disabled
+   */
+  public async pickPolicyViolations(violations: PolicyViolation[]): Promise<PolicyViolation[] | undefined> {
+    if (violations.length === 0) {
+      vscode.window.showInformationMessage(vscode.l10n.t('Keybinding Conflict Scanner: All keybindings follow the team policy.'));
+      return undefined;
+    }
+
+    const items: (vscode.QuickPickItem & { violation: PolicyViolation })[] = violations.map(violation => ({
+      label: `$(${violation.kind === 'missing' ? 'add' : 'circle-slash'}) ${describePolicyViolation(violation)}`,
+      description: violation.kind === 'missing'
+        ? vscode.l10n.t('add {0} → {1}', violation.key, violation.command ?? '')
+        : vscode.l10n.t('disable {0} keybinding(s)', violation.bindings.length),
+      picked: true,
+      violation
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: vscode.l10n.t('Select the team keybinding policy violations to fix'),
+      title: vscode.l10n.t('Keybinding Policy')
+    });
+
+    return selected && selected.length > 0 ? selected.map(item => item.violation) : undefined;
+  }
+
+  /**
+   * Shows the ignored conflicts and returns the entries the user wants reported again
+   */
+  public async showIgnoredConflicts(entries: IgnoredConflict[]): Promise<IgnoredConflict[] | undefined> {
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage(vscode.l10n.t('Keybinding Conflict Scanner: No conflicts are ignored.'));
+      return undefined;
+    }
+
+    const items: (vscode.QuickPickItem & { entry: IgnoredConflict })[] = entries.map(entry => {
+      if ('extensionId' in entry) {
+        return {
+          label: `$(extensions) ${this.getExtensionName(entry.extensionId)}`,
+          description: vscode.l10n.t('all conflicts from this extension'),
+          detail: entry.extensionId,
+          entry
+        };
+      }
+      return {
+        label: `$(keyboard) ${entry.key}`,
+        description: vscode.l10n.t('{0} command(s)', entry.commands.length),
+        detail: entry.commands.join(', '),
+        entry
+      };
+    });
+
+    const selected = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: vscode.l10n.t('Select entries to un-ignore (their conflicts will be reported again)'),
+      title: vscode.l10n.t('Ignored Conflicts')
+    });
+
+    if (!selected || selected.length === 0) {
+      return undefined;
+    }
+
+    return selected.map(item => item.entry);
+  }
+
+  private getExtensionName(extensionId: string): string {
+    if (extensionId === BUILTIN_EXTENSION_ID) {
+      return 'VS Code';
+    }
+    if (extensionId === USER_EXTENSION_ID) {
+      return vscode.l10n.t('User keybinding');
+    }
+    const packageJSON = vscode.extensions.getExtension(extensionId)?.packageJSON;
+    return packageJSON?.displayName || packageJSON?.name || extensionId;
+  }
+
+  /**
+   * Asks which format to export a conflict report in
+   */
+  public async pickReportFormat(): Promise<ReportFormat | undefined> {
+    const items: (vscode.QuickPickItem & { format: ReportFormat })[] = [
+      { label: '$(json) JSON', description: vscode.l10n.t('Versioned schema, for tools and CI'), format: 'json' },
+      { label: '$(markdown) Markdown', description: vscode.l10n.t('Tables for pull requests and wikis'), format: 'markdown' },
+      { label: '$(table) CSV', description: vscode.l10n.t('One row per keybinding, for spreadsheets'), format: 'csv' },
+      { label: '$(globe) HTML', description: vscode.l10n.t('Self-contained page'), format: 'html' }
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: vscode.l10n.t('Select the report format'),
+      title: vscode.l10n.t('Export Conflict Report')
+    });
+
+    return selected?.format;
+  }
+
+  /**
+   * Shows the resolution history and returns what the user wants to undo
+   */
+  public async showHistory(records: ResolutionRecord[]): Promise<HistoryAction | undefined> {
+    if (records.length === 0) {
+      vscode.window.showInformationMessage(vscode.l10n.t('Keybinding Conflict Scanner: No resolutions have been applied yet.'));
+      return undefined;
+    }
+
+    const activeCount = records.filter(r => !r.reverted).length;
+
+    const items: (vscode.QuickPickItem & { record?: ResolutionRecord })[] = [];
+    if (activeCount > 0) {
+      items.push({
+        label: `$(discard) ${vscode.l10n.t('Revert All')}`,
+        description: vscode.l10n.t('Undo all {0} active resolution(s)', activeCount)
+      });
+      items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+    }
+
+    for (const record of records) {
+      items.push({
+        label: `${record.reverted ? '$(circle-slash)' : '$(history)'} ${record.summary}`,
+        description: new Date(record.timestamp).toLocaleString(),
+        detail: record.reverted ? vscode.l10n.t('Reverted') : vscode.l10n.t('{0} change(s) in {1}', record.changes.length, record.keybindingsPath),
+        record
+      });
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: vscode.l10n.t('Select a resolution to revert'),
+      title: vscode.l10n.t('Resolution History')
+    });
+
+    if (!selected) {
+      return undefined;
+    }
+
+    if (!selected.record) {
+      return { type: 'revertAll' };
+    }
+
+    const record = selected.record;
+    const options: (vscode.QuickPickItem & { action: 'revert' | 'restoreBackup' })[] = [];
+
+    if (!record.reverted) {
+      options.push({
+        label: `$(discard) ${vscode.l10n.t('Revert This Resolution')}`,
+        description: vscode.l10n.t('Remove only the entries this resolution added or changed'),
+        action: 'revert'
+      });
+    }
+    options.push({
+      label: `$(archive) ${vscode.l10n.t('Restore Backup')}`,
+      description: vscode.l10n.t('Restore keybindings.json as it was before this resolution (discards later changes)'),
+      action: 'restoreBackup'
+    });
+
+    const choice = await vscode.window.showQuickPick(options, {
+      placeHolder: record.summary
+    });
+
+    return choice ? { type: choice.action, record } : undefined;
+  }
+
+  /**
+   * Shows what extension changes did to the keybindings, grouped by extension
+   * Picking a binding opens it in the Keyboard Shortcuts editor
+   */
+  public async showKeybindingChanges(report: KeybindingChangeReport | undefined): Promise<KeybindingChangeAction | undefined> {
+    if (!report) {
+      vscode.window.showInformationMessage(vscode.l10n.t('Keybinding Conflict Scanner: No keybinding changes have been detected yet.'));
+      return undefined;
+    }
+
+    const items: (vscode.QuickPickItem & { action?: KeybindingChangeAction })[] = [];
+    if (report.newConflicts.length > 0) {
+      items.push({
+        label: `$(warning) ${vscode.l10n.t('Resolve {0} New Conflict(s)', report.newConflicts.length)}`,
+        description: vscode.l10n.t('Conflicts introduced by these changes'),
+        action: { type: 'resolve' }
+      });
+    }
+
+    for (const change of report.changes) {
+      const version = change.kind === 'updated'
+        ? `${change.previousVersion} → ${change.version}`
+        : change.kind === 'changed' ? change.version
+          : change.kind === 'added' ? vscode.l10n.t('added {0}', change.version ?? '')
+            : vscode.l10n.t('removed {0}', change.previousVersion ?? '');
+      items.push({ label: `${change.extensionName} (${version})`, kind: vscode.QuickPickItemKind.Separator });
+
+      for (const binding of change.added) {
+        items.push({
+          label: `$(add) ${binding.key}`,
+          description: binding.command,
+          detail: binding.when ? `when: ${binding.when}` : undefined,
+          action: { type: 'open', binding }
+        });
+      }
+      for (const { from, to } of change.rekeyed) {
+        items.push({
+          label: `$(arrow-right) ${from.key} → ${to.key}`,
+          description: to.command,
+          detail: to.when ? `when: ${to.when}` : undefined,
+          action: { type: 'open', binding: to }
+        });
+      }
+      for (const binding of change.removed) {
+        items.push({
+          label: `$(remove) ${binding.key}`,
+          description: binding.command,
+          detail: binding.when ? `when: ${binding.when}` : undefined,
+          action: { type: 'open', binding }
+        });
+      }
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: vscode.l10n.t('Select a keybinding to open it in the Keyboard Shortcuts editor'),
+      title: vscode.l10n.t('Keybinding Changes since {0}', new Date(report.previousTimestamp).toLocaleString()),
+      matchOnDescription: true
+    });
+
+    return selected?.action;
+  }
+
+  /**
+   * Asks which extension to preflight: a VSIX file, an extension folder, or one of the
+   * extensions on disk that aren't enabled
+   */
+  public async pickPreflightTarget(candidates: ExtensionManifest[]): Promise<PreflightTarget | undefined> {
+    const items: (vscode.QuickPickItem & { target?: PreflightTarget; browse?: 'vsix' | 'folder' })[] = [
+      { label: `$(package) ${vscode.l10n.t('VSIX File...')}`, description: vscode.l10n.t('A packaged extension that isn\'t installed yet'), browse: 'vsix' },
+      { label: `$(folder) ${vscode.l10n.t('Extension Folder...')}`, description: vscode.l10n.t('An unpacked extension with a package.json'), browse: 'folder' }
+    ];
+
+    if (candidates.length > 0) {
+      items.push({ label: vscode.l10n.t('Installed but not enabled'), kind: vscode.QuickPickItemKind.Separator });
+      for (const extension of candidates) {
+        items.push({
+          label: `$(extensions) ${extension.name}`,
+          description: `${extension.id} ${extension.version}`,
+          detail: vscode.l10n.t('{0} keybinding(s)', extension.keybindings.length),
+          target: { type: 'extension', extension }
+        });
+      }
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: vscode.l10n.t('Select an extension to check before installing or enabling it'),
+      title: vscode.l10n.t('Preflight Extension Keybindings'),
+      matchOnDescription: true
+    });
+
+    if (!selected?.browse) {
+      return selected?.target;
+    }
+
+    const uris = await vscode.window.showOpenDialog({
+      canSelectFiles: selected.browse === 'vsix',
+      canSelectFolders: selected.browse === 'folder',
+      canSelectMany: false,
+      filters: selected.browse === 'vsix' ? { [vscode.l10n.t('VSIX Package')]: ['vsix'] } : undefined,
+      openLabel: vscode.l10n.t('Preflight')
+    });
+
+    return uris?.[0] ? { type: selected.browse, path: uris[0].fsPath } : undefined;
+  }
+
   /**
    * Shows summary after conflicts are resolved
    */
   public showResolutionSummary(resolvedCount: number): void {
     vscode.window.showInformationMessage(
-      `Keybinding Conflict Scanner: Disabled ${resolvedCount} keybinding(s).`
+      vscode.l10n.t('Keybinding Conflict Scanner: Disabled {0} keybinding(s).', resolvedCount)
     );
   }
 
@@ -230,6 +819,6 @@ export class ConflictPresenter {
    * Shows error message
    */
   public showError(message: string): void {
-    vscode.window.showErrorMessage(`Keybinding Conflict Scanner: ${message}`);
+    vscode.window.showErrorMessage(vscode.l10n.t('Keybinding Conflict Scanner: {0}', message));
   }
 }
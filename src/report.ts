@@ -0,0 +1,332 @@
+import { ConflictGroup, ConflictReport, KeybindingInfo, PreflightResult, ReportFormat, ReportMetadata } from './types';
+import { PLATFORM_LABELS } from './platform';
+
+/**
+ * Version of the JSON report layout; bump when fields are renamed or removed
+ */
+export const REPORT_SCHEMA_VERSION = 1;
+
+/**
+ * JSON Schema describing version 1 of the report
+ */
+export const REPORT_SCHEMA_URL =
+  'https://raw.githubusercontent.com/rhslvkf/keybinding-conflict-scanner/main/schemas/conflict-report-v1.schema.json';
+
+/**
+ * File extension and display name of each report format
+ */
+export const REPORT_FORMATS: Record<ReportFormat, { label: string; extension: string }> = {
+  json: { label: 'JSON', extension: 'json' },
+  markdown: { label: 'Markdown', extension: 'md' },
+  csv: { label: 'CSV', extension: 'csv' },
+  html: { label: 'HTML', extension: 'html' }
+};
+
+/**
+ * Builds a report from scan results
+ * Conflicts whose 'when' clauses never overlap are left out; every binding stays in the inventory
+ */
+export function buildReport(
+  conflicts: ConflictGroup[],
+  keybindings: KeybindingInfo[],
+  metadata: ReportMetadata
+): ConflictReport {
+  const reported = conflicts.filter(c => c.severity !== 'none');
+  const ordered = [
+    ...reported.filter(c => c.kind === 'exact'),
+    ...reported.filter(c => c.kind === 'prefix')
+  ];
+
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    metadata,
+    summary: {
+      conflicts: ordered.length,
+      definite: ordered.filter(c => c.severity === 'definite').length,
+      possible: ordered.filter(c => c.severity === 'possible').length,
+      prefixShadowing: ordered.filter(c => c.kind === 'prefix').length,
+      keybindings: keybindings.length
+    },
+    conflicts: ordered.map((conflict, index) => ({ id: index + 1, ...conflict })),
+    keybindings: [...keybindings].sort(compareBindings)
+  };
+}
+
+/**
+ * Serializes a report in the given format
+ */
+export function formatReport(report: ConflictReport, format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return formatJson(report);
+    case 'markdown':
+      return formatMarkdown(report);
+    case 'csv':
+      return formatCsv(report);
+    case 'html':
+      return formatHtml(report);
+  }
+}
+
+function formatJson(report: ConflictReport): string {
+  return JSON.stringify({ ['$schema']: REPORT_SCHEMA_URL, ...report }, null, 2) + '\n';
+}
+
+function formatMarkdown(report: ConflictReport): string {
+  const { metadata, summary } = report;
+  const lines: string[] = [];
+
+  lines.push('# Keybinding Conflict Report', '');
+  lines.push('| | |', '|---|---|');
+  lines.push(`| Generated | ${report.generatedAt} |`);
+  lines.push(`| Editor | ${escapeMarkdown(`${metadata.editor.name} ${metadata.editor.version}`)} |`);
+  lines.push(`| Platform | ${PLATFORM_LABELS[metadata.platform]} |`);
+  lines.push(`| Scanned platforms | ${metadata.scannedPlatforms.map(p => PLATFORM_LABELS[p]).join(', ')} |`);
+  lines.push(`| Keyboard layout | ${metadata.keyboardLayout} |`);
+  lines.push('');
+
+  lines.push('## Summary', '');
+  lines.push(`- Conflicts: ${summary.conflicts} (${summary.definite} definite, ${summary.possible} possible)`);
+  lines.push(`- Prefix shadowing: ${summary.prefixShadowing}`);
+  lines.push(`- Keybindings scanned: ${summary.keybindings}`);
+  lines.push('');
+
+  lines.push('## Conflicts', '');
+  if (report.conflicts.length === 0) {
+    lines.push('No conflicts found.');
+  } else {
+    lines.push('| # | Platform | Key | Kind | Severity | Keybindings |', '|---|---|---|---|---|---|');
+    for (const conflict of report.conflicts) {
+      const bindings = conflict.bindings.map(b => escapeMarkdown(describeBinding(b, conflict))).join('<br>');
+      lines.push(`| ${conflict.id} | ${PLATFORM_LABELS[conflict.platform]} | ${markdownCode(conflict.key)} | ${conflict.kind} | ${conflict.severity} | ${bindings} |`);
+    }
+  }
+  lines.push('');
+
+  lines.push('## Extensions', '');
+  lines.push('| Extension | ID | Version |', '|---|---|---|');
+  for (const extension of metadata.extensions) {
+    lines.push(`| ${escapeMarkdown(extension.name)} | ${escapeMarkdown(extension.id)} | ${escapeMarkdown(extension.version)} |`);
+  }
+  lines.push('');
+
+  lines.push('## Keybinding Inventory', '');
+  lines.push('| Platform | Key | Command | When | Source |', '|---|---|---|---|---|');
+  for (const binding of report.keybindings) {
+    lines.push(`| ${PLATFORM_LABELS[binding.platform]} | ${markdownCode(binding.key)} | ${escapeMarkdown(binding.command)} | ${binding.when ? markdownCode(binding.when) : ''} | ${escapeMarkdown(binding.extensionName)} |`);
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Describes, as Markdown, the conflicts an extension would bring in if it were installed or enabled
+ */
+export function formatPreflightReport(result: PreflightResult): string {
+  const { extension, conflicts } = result;
+  const lines: string[] = [];
+
+  lines.push(`# Keybinding Preflight: ${escapeMarkdown(extension.name)}`, '');
+  lines.push('| | |', '|---|---|');
+  lines.push(`| Extension | ${escapeMarkdown(extension.id)} ${escapeMarkdown(extension.version)} |`);
+  lines.push(`| Read from | ${markdownCode(extension.location)} |`);
+  lines.push(`| Platforms | ${result.platforms.map(p => PLATFORM_LABELS[p]).join(', ')} |`);
+  lines.push(`| Keybindings declared | ${extension.keybindings.length} (${result.bindings.length} across the platforms) |`);
+  if (result.replaced.length > 0) {
+    lines.push(`| Replaces | ${result.replaced.length} keybinding(s) of the installed version |`);
+  }
+  lines.push('');
+
+  lines.push('## Conflicts', '');
+  if (conflicts.length === 0) {
+    lines.push('No conflicts: this extension can be installed or enabled without clashing with your keybindings.');
+  } else {
+    lines.push(
+      `${conflicts.length} conflict(s) (${conflicts.filter(c => c.severity === 'definite').length} definite) with your current keybindings.`,
+      ''
+    );
+    lines.push('| Platform | Key | Kind | Severity | New keybinding | Current keybindings |', '|---|---|---|---|---|---|');
+    for (const conflict of conflicts) {
+      const incoming = conflict.bindings.filter(b => b.extensionId === extension.id);
+      const existing = conflict.bindings.filter(b => b.extensionId !== extension.id);
+      lines.push(`| ${PLATFORM_LABELS[conflict.platform]} | ${markdownCode(conflict.key)} | ${conflict.kind} | ${conflict.severity} | ${incoming.map(b => escapeMarkdown(describeBinding(b, conflict))).join('<br>')} | ${existing.map(b => escapeMarkdown(describeBinding(b, conflict))).join('<br>')} |`);
+    }
+  }
+  lines.push('');
+
+  lines.push('## Declared Keybindings', '');
+  lines.push('| Platform | Key | Command | When |', '|---|---|---|---|');
+  for (const binding of [...result.bindings].sort(compareBindings)) {
+    lines.push(`| ${PLATFORM_LABELS[binding.platform]} | ${markdownCode(binding.key)} | ${escapeMarkdown(binding.command)} | ${binding.when ? markdownCode(binding.when) : ''} |`);
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * One row per keybinding in the inventory; 'conflicts' lists the report numbers of its conflicts
+ */
+function formatCsv(report: ConflictReport): string {
+  const conflictIds = getConflictIdsByBinding(report);
+  const rows: string[][] = [
+    ['platform', 'key', 'command', 'when', 'source', 'extensionId', 'extensionName', 'severity', 'conflicts']
+  ];
+
+  for (const binding of report.keybindings) {
+    const ids = conflictIds.get(bindingId(binding)) ?? [];
+    const severities = ids.map(id => report.conflicts[id - 1].severity);
+    rows.push([
+      binding.platform,
+      binding.key,
+      binding.command,
+      binding.when ?? '',
+      binding.source,
+      binding.extensionId,
+      binding.extensionName,
+      severities.includes('definite') ? 'definite' : severities.includes('possible') ? 'possible' : '',
+      ids.join(' ')
+    ]);
+  }
+
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatHtml(report: ConflictReport): string {
+  const { metadata, summary } = report;
+
+  const conflictRows = report.conflicts.map(conflict => `
+      <tr class="${conflict.severity}">
+        <td>${conflict.id}</td>
+        <td>${PLATFORM_LABELS[conflict.platform]}</td>
+        <td><code>${escapeHtml(conflict.key)}</code></td>
+        <td>${conflict.kind}</td>
+        <td>${conflict.severity}</td>
+        <td>${conflict.bindings.map(b => escapeHtml(describeBinding(b, conflict))).join('<br>')}</td>
+      </tr>`).join('');
+
+  const extensionRows = metadata.extensions.map(extension => `
+      <tr><td>${escapeHtml(extension.name)}</td><td>${escapeHtml(extension.id)}</td><td>${escapeHtml(extension.version)}</td></tr>`).join('');
+
+  const inventoryRows = report.keybindings.map(binding => `
+      <tr><td>${PLATFORM_LABELS[binding.platform]}</td><td><code>${escapeHtml(binding.key)}</code></td><td>${escapeHtml(binding.command)}</td><td>${binding.when ? `<code>${escapeHtml(binding.when)}</code>` : ''}</td><td>${escapeHtml(binding.extensionName)}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Keybinding Conflict Report</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2rem; color: #222; }
+    table { border-collapse: collapse; margin-bottom: 2rem; }
+    th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+    th { background: #f3f3f3; }
+    tr.definite td:nth-child(5) { color: #c62828; font-weight: bold; }
+    tr.possible td:nth-child(5) { color: #ef6c00; }
+    code { font-family: Consolas, Menlo, monospace; }
+  </style>
+</head>
+<body>
+  <h1>Keybinding Conflict Report</h1>
+  <table>
+    <tr><th>Generated</th><td>${escapeHtml(report.generatedAt)}</td></tr>
+    <tr><th>Editor</th><td>${escapeHtml(`${metadata.editor.name} ${metadata.editor.version}`)}</td></tr>
+    <tr><th>Platform</th><td>${PLATFORM_LABELS[metadata.platform]}</td></tr>
+    <tr><th>Scanned platforms</th><td>${metadata.scannedPlatforms.map(p => PLATFORM_LABELS[p]).join(', ')}</td></tr>
+    <tr><th>Keyboard layout</th><td>${escapeHtml(metadata.keyboardLayout)}</td></tr>
+  </table>
+
+  <h2>Summary</h2>
+  <ul>
+    <li>Conflicts: ${summary.conflicts} (${summary.definite} definite, ${summary.possible} possible)</li>
+    <li>Prefix shadowing: ${summary.prefixShadowing}</li>
+    <li>Keybindings scanned: ${summary.keybindings}</li>
+  </ul>
+
+  <h2>Conflicts</h2>
+  ${report.conflicts.length === 0 ? '<p>No conflicts found.</p>' : `<table>
+    <thead><tr><th>#</th><th>Platform</th><th>Key</th><th>Kind</th><th>Severity</th><th>Keybindings</th></tr></thead>
+    <tbody>${conflictRows}
+    </tbody>
+  </table>`}
+
+  <h2>Extensions</h2>
+  <table>
+    <thead><tr><th>Extension</th><th>ID</th><th>Version</th></tr></thead>
+    <tbody>${extensionRows}
+    </tbody>
+  </table>
+
+  <details>
+    <summary><h2 style="display: inline">Keybinding Inventory (${report.keybindings.length})</h2></summary>
+    <table>
+      <thead><tr><th>Platform</th><th>Key</th><th>Command</th><th>When</th><th>Source</th></tr></thead>
+      <tbody>${inventoryRows}
+      </tbody>
+    </table>
+  </details>
+</body>
+</html>
+`;
+}
+
+/**
+ * One-line description of a binding within a conflict
+ * Prefix conflicts show the full key, so single keys and chords can be told apart
+ */
+function describeBinding(binding: KeybindingInfo, conflict: ConflictGroup): string {
+  const key = conflict.kind === 'prefix' ? ` [${binding.key}]` : '';
+  const when = binding.when ? ` when ${binding.when}` : '';
+  return `${binding.command} (${binding.extensionName})${key}${when}`;
+}
+
+function getConflictIdsByBinding(report: ConflictReport): Map<string, number[]> {
+  const ids = new Map<string, number[]>();
+  for (const conflict of report.conflicts) {
+    for (const binding of conflict.bindings) {
+      const id = bindingId(binding);
+      ids.set(id, [...(ids.get(id) ?? []), conflict.id]);
+    }
+  }
+  return ids;
+}
+
+function bindingId(binding: KeybindingInfo): string {
+  return [binding.platform, binding.key, binding.command, binding.when ?? '', binding.extensionId].join('\u0000');
+}
+
+function compareBindings(a: KeybindingInfo, b: KeybindingInfo): number {
+  return a.platform.localeCompare(b.platform) ||
+    a.key.localeCompare(b.key) ||
+    a.command.localeCompare(b.command);
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/</g, '&lt;');
+}
+
+/**
+ * Code span inside a table cell; only pipes need escaping there
+ * The fence is longer than any backtick run in the text, and a backtick at either end is padded
+ * with a space so it doesn't merge into the fence (e.g. ctrl+` becomes `` ctrl+` ``)
+ */
+function markdownCode(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text.replace(/\|/g, '\\|')}${padding}${fence}`;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
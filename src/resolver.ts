@@ -1,13 +1,28 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
-import { KeybindingInfo } from './types';
+import { KeybindingChange, KeybindingEntry, KeybindingInfo, KeyboardLayoutId, KeyReassignment, PolicyViolation, ResolutionRecord } from './types';
+import { KeybindingsDocument } from './jsonc';
+import { ResolutionHistory } from './history';
+import { KeybindingsPathResolver } from './paths';
+import { normalizeKeybinding } from './keys';
+import { KeySuggester } from './suggestions';
+import { WhenClauseAnalyzer } from './whenClause';
 
 /**
  * Resolves keybinding conflicts by modifying user's keybindings.json
+ * Every applied change is recorded in the resolution history, if one is provided
  */
 export class ConflictResolver {
+  private pathResolver: KeybindingsPathResolver;
+  private history?: ResolutionHistory;
+  private whenAnalyzer = new WhenClauseAnalyzer();
+
+  constructor(pathResolver: KeybindingsPathResolver, history?: ResolutionHistory) {
+    this.pathResolver = pathResolver;
+    this.history = history;
+  }
+
   /**
    * Disables selected keybindings by setting key to empty string
    */
@@ -17,47 +32,23 @@ export class ConflictResolver {
     }
 
     try {
-      const keybindingsPath = this.getKeybindingsPath();
-      const currentKeybindings = this.readKeybindingsFile(keybindingsPath);
-
-      // Add disable entries for each selected binding
-      for (const binding of bindings) {
-        // Check if this command already has a user override
-        // Match by command and when clause (treating undefined and missing as same)
-        const existingIndex = currentKeybindings.findIndex((kb: any) => {
-          if (kb.command !== binding.command) {
-            return false;
-          }
-          // Treat undefined, null, and missing 'when' as equivalent
-          const kbWhen = kb.when || undefined;
-          const bindingWhen = binding.when || undefined;
-          return kbWhen === bindingWhen;
-        });
-
-        if (existingIndex >= 0) {
-          // Update existing entry to disable it
-          currentKeybindings[existingIndex].key = '';
-        } else {
-          // Add new disable entry
-          const disableEntry: any = {
-            key: '',
-            command: binding.command
-          };
-
-          // Add 'when' clause if it exists
-          if (binding.when) {
-            disableEntry.when = binding.when;
-          }
-
-          currentKeybindings.push(disableEntry);
-        }
-      }
+      const keybindingsPath = this.pathResolver.getKeybindingsPath();
+      const document = this.readKeybindingsFile(keybindingsPath);
+      const previousContent = document.getText();
+      const changes = this.appendDisableEntries(document, bindings);
 
       // Write back to file
-      this.writeKeybindingsFile(keybindingsPath, currentKeybindings);
+      this.writeKeybindingsFile(keybindingsPath, document);
+      this.history?.record(
+        'disable',
+        vscode.l10n.t('Disabled {0} keybinding(s): {1}', bindings.length, bindings.map(b => `${b.key} → ${b.command}`).join(', ')),
+        keybindingsPath,
+        changes,
+        previousContent
+      );
 
     } catch (error) {
-      throw new Error(`keybindings.json 업데이트 실패: ${error}`);
+      throw new Error(vscode.l10n.t('Failed to update keybindings.json: {0}', error instanceof Error ? error.message : String(error)));
     }
   }
 
@@ -69,24 +60,86 @@ export class ConflictResolver {
     newKey: string,
     allBindings: KeybindingInfo[]
   ): Promise<void> {
-    try {
-      const keybindingsPath = this.getKeybindingsPath();
-      const currentKeybindings = this.readKeybindingsFile(keybindingsPath);
+    await this.reassignKeybindings([{ binding, newKey }], allBindings);
+  }
 
-      // Check if new key conflicts with existing bindings
-      const normalizedNewKey = newKey.toLowerCase().trim();
-      const conflict = allBindings.find(b =>
-        b.key === normalizedNewKey && b.command !== binding.command
-      );
+  /**
+   * Reassigns several keybindings at once, as a single edit and history entry
+   * Nothing is written if any of the new keys collides with another binding
+   */
+  public async reassignKeybindings(
+    reassignments: KeyReassignment[],
+    allBindings: KeybindingInfo[]
+  ): Promise<void> {
+    if (reassignments.length === 0) {
+      return;
+    }
+
+    const keybindingsPath = this.pathResolver.getKeybindingsPath();
+    const document = this.readKeybindingsFile(keybindingsPath);
+    const currentKeybindings = document.entries;
+
+    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+    const layout = config.get<KeyboardLayoutId>('keyboardLayout', 'us');
+
+    const normalized = reassignments.map(({ binding, newKey }) => ({
+      binding,
+      newKey,
+      normalizedNewKey: normalizeKeybinding(newKey, binding.platform, layout)
+    }));
+
+    for (const { binding, newKey, normalizedNewKey } of normalized) {
+      // Check if new key conflicts with existing bindings whose 'when' clause can be active at the same time
+      const conflict = new KeySuggester(allBindings, binding.platform).findCollision(normalizedNewKey, binding);
 
       if (conflict) {
         throw new Error(
-          `새 키 조합 "${newKey}"는 이미 "${conflict.extensionName}"의 "${conflict.command}"에 할당되어 있습니다.`
+          vscode.l10n.t('The new key combination "{0}" is already assigned to "{1}" from "{2}".', newKey, conflict.command, conflict.extensionName)
+        );
+      }
+
+      // Also check keys the user has bound in keybindings.json since the last scan
+      const userConflict = currentKeybindings.find((kb: any) =>
+        typeof kb.key === 'string' &&
+        normalizeKeybinding(kb.key, binding.platform, layout) === normalizedNewKey &&
+        typeof kb.command === 'string' &&
+        !kb.command.startsWith('-') &&
+        kb.command !== binding.command &&
+        this.whenAnalyzer.canOverlap(kb.when, binding.when)
+      );
+
+      if (userConflict) {
+        throw new Error(
+          vscode.l10n.t('The new key combination "{0}" is already assigned to the user keybinding "{1}".', newKey, userConflict.command)
         );
       }
 
+      // And the other keys of this batch
+      const batchConflict = normalized.find(other =>
+        other.binding !== binding &&
+        other.normalizedNewKey === normalizedNewKey &&
+        this.whenAnalyzer.canOverlap(other.binding.when, binding.when)
+      );
+
+      if (batchConflict) {
+        throw new Error(
+          vscode.l10n.t('The new key combination "{0}" was given to both "{1}" and "{2}".', newKey, binding.command, batchConflict.binding.command)
+        );
+      }
+    }
+
+    const previousContent = document.getText();
+    const changes: KeybindingChange[] = [];
+
+    for (const { binding, normalizedNewKey } of normalized) {
+      // '-command' entries only remove default and extension keybindings, so the user's own entry is edited in place
+      if (binding.source === 'user') {
+        changes.push(this.rekeyUserEntry(document, binding, normalizedNewKey, layout));
+        continue;
+      }
+
       // First, disable the original binding
-      const disableEntry: any = {
+      const disableEntry: KeybindingEntry = {
         key: binding.key,
         command: `-${binding.command}`
       };
@@ -96,7 +149,7 @@ export class ConflictResolver {
       }
 
       // Then, add the new binding
-      const newEntry: any = {
+      const newEntry: KeybindingEntry = {
         key: normalizedNewKey,
         command: binding.command
       };
@@ -105,75 +158,246 @@ export class ConflictResolver {
         newEntry.when = binding.when;
       }
 
-      // Add both entries
-      currentKeybindings.push(disableEntry);
-      currentKeybindings.push(newEntry);
+      document.append(disableEntry);
+      document.append(newEntry);
+      changes.push({ type: 'added', entry: disableEntry }, { type: 'added', entry: newEntry });
+    }
 
-      // Write back to file
-      this.writeKeybindingsFile(keybindingsPath, currentKeybindings);
+    // Write back to file
+    this.writeKeybindingsFile(keybindingsPath, document);
+    this.history?.record(
+      'reassign',
+      normalized.length === 1
+        ? vscode.l10n.t('Reassigned {0} from {1} to {2}', normalized[0].binding.command, normalized[0].binding.key, normalized[0].normalizedNewKey)
+        : vscode.l10n.t('Reassigned {0} keybinding(s): {1}', normalized.length, normalized.map(r => `${r.binding.command} ${r.binding.key} → ${r.normalizedNewKey}`).join(', ')),
+      keybindingsPath,
+      changes,
+      previousContent
+    );
+  }
+
+  /**
+   * Fixes team keybinding policy violations, as a single edit and history entry
+   * Missing required keys are added and bindings that break a rule are disabled
+   */
+  public async enforcePolicy(violations: PolicyViolation[]): Promise<void> {
+    if (violations.length === 0) {
+      return;
+    }
+
+    try {
+      const keybindingsPath = this.pathResolver.getKeybindingsPath();
+      const document = this.readKeybindingsFile(keybindingsPath);
+      const previousContent = document.getText();
+      const changes: KeybindingChange[] = [];
+
+      for (const violation of violations.filter(v => v.kind === 'missing')) {
+        const entry: KeybindingEntry = { key: violation.key, command: violation.command! };
+        if (violation.when) {
+          entry.when = violation.when;
+        }
+
+        document.append(entry);
+        changes.push({ type: 'added', entry });
+      }
+
+      // A binding can break several rules, but only needs disabling once
+      const offending = Array.from(new Set(violations.flatMap(v => v.bindings)));
+      changes.push(...this.appendDisableEntries(document, offending));
 
+      this.writeKeybindingsFile(keybindingsPath, document);
+      this.history?.record(
+        'policy',
+        vscode.l10n.t('Applied team keybinding policy: {0}', violations.map(v => v.kind === 'missing'
+          ? vscode.l10n.t('added {0} → {1}', v.key, v.command ?? '')
+          : vscode.l10n.t('disabled {0}', v.bindings.map(b => `${b.key} → ${b.command}`).join(', '))).join('; ')),
+        keybindingsPath,
+        changes,
+        previousContent
+      );
     } catch (error) {
-      throw error;
+      throw new Error(vscode.l10n.t('Failed to update keybindings.json: {0}', error instanceof Error ? error.message : String(error)));
     }
   }
 
   /**
-   * Gets the path to user's keybindings.json
+   * Takes back the edits made by a recorded resolution
+   * Added entries are removed and modified entries get their previous values back
    */
-  private getKeybindingsPath(): string {
-    const platform = process.platform;
-    const homeDir = os.homedir();
+  public async revertResolution(record: ResolutionRecord): Promise<void> {
+    const document = this.readKeybindingsFile(record.keybindingsPath);
+    const missing: KeybindingEntry[] = [];
+
+    // Undo in reverse order so later edits are taken back first
+    for (const change of [...record.changes].reverse()) {
+      const target = change.type === 'added' ? change.entry : change.after;
+      const index = document.entries.findIndex(kb => this.isSameEntry(kb, target));
 
-    let configPath: string;
+      if (index < 0) {
+        missing.push(target);
+        continue;
+      }
 
-    if (platform === 'win32') {
-      configPath = path.join(homeDir, 'AppData', 'Roaming', 'Code', 'User', 'keybindings.json');
-    } else if (platform === 'darwin') {
-      configPath = path.join(homeDir, 'Library', 'Application Support', 'Code', 'User', 'keybindings.json');
-    } else {
-      configPath = path.join(homeDir, '.config', 'Code', 'User', 'keybindings.json');
+      if (change.type === 'added') {
+        document.remove(index);
+      } else {
+        document.setProperty(index, 'key', change.before.key);
+        document.setProperty(index, 'command', change.before.command);
+        if (change.before.when) {
+          document.setProperty(index, 'when', change.before.when);
+        } else {
+          document.removeProperty(index, 'when');
+        }
+      }
     }
 
-    return configPath;
+    if (missing.length === record.changes.length && missing.length > 0) {
+      throw new Error(
+        vscode.l10n.t('None of the entries this resolution changed could be found in keybindings.json. Backup file: {0}', record.backupFile)
+      );
+    }
+
+    this.writeKeybindingsFile(record.keybindingsPath, document);
+    this.history?.markReverted(record.id);
   }
 
   /**
-   * Reads keybindings.json file (legacy method for reassignment)
+   * Restores keybindings.json to its contents before a recorded resolution
+   * This also discards every change made after it
    */
-  private readKeybindingsFile(filePath: string): any[] {
-    try {
-      // Create file if it doesn't exist
-      if (!fs.existsSync(filePath)) {
-        const dir = path.dirname(filePath);
-        if (!fs.existsSync(dir)) {
-          fs.mkdirSync(dir, { recursive: true });
+  public async restoreBackup(record: ResolutionRecord): Promise<void> {
+    if (!this.history) {
+      return;
+    }
+
+    const content = this.history.readBackup(record);
+    fs.writeFileSync(record.keybindingsPath, content, 'utf8');
+
+    for (const later of this.history.getRecordsSince(record)) {
+      this.history.markReverted(later.id);
+    }
+  }
+
+  /**
+   * Disables bindings in the document by setting their key to an empty string
+   * An existing override of the same command and 'when' clause is updated instead of adding a new entry
+   */
+  private appendDisableEntries(document: KeybindingsDocument, bindings: KeybindingInfo[]): KeybindingChange[] {
+    const changes: KeybindingChange[] = [];
+
+    for (const binding of bindings) {
+      const currentKeybindings = document.entries;
+
+      // Check if this command already has a user override
+      // Match by command and when clause (treating undefined and missing as same)
+      const existingIndex = currentKeybindings.findIndex((kb: any) => {
+        if (kb.command !== binding.command) {
+          return false;
+        }
+        // Treat undefined, null, and missing 'when' as equivalent
+        const kbWhen = kb.when || undefined;
+        const bindingWhen = binding.when || undefined;
+        return kbWhen === bindingWhen;
+      });
+
+      if (existingIndex >= 0) {
+        // Update existing entry to disable it
+        const before = this.toEntry(currentKeybindings[existingIndex]);
+        document.setProperty(existingIndex, 'key', '');
+        changes.push({ type: 'modified', before, after: { ...before, key: '' } });
+      } else {
+        // Add new disable entry
+        const disableEntry: KeybindingEntry = {
+          key: '',
+          command: binding.command
+        };
+
+        // Add 'when' clause if it exists
+        if (binding.when) {
+          disableEntry.when = binding.when;
         }
-        fs.writeFileSync(filePath, '[]', 'utf8');
-        return [];
+
+        document.append(disableEntry);
+        changes.push({ type: 'added', entry: disableEntry });
       }
+    }
+
+    return changes;
+  }
 
-      const content = fs.readFileSync(filePath, 'utf8');
+  /**
+   * Changes the key of the keybindings.json entry a user binding was read from
+   */
+  private rekeyUserEntry(
+    document: KeybindingsDocument,
+    binding: KeybindingInfo,
+    newKey: string,
+    layout: KeyboardLayoutId
+  ): KeybindingChange {
+    const index = document.entries.findIndex((kb: any) =>
+      typeof kb.key === 'string' &&
+      kb.command === binding.command &&
+      (kb.when || undefined) === (binding.when || undefined) &&
+      normalizeKeybinding(kb.key, binding.platform, layout) === binding.key
+    );
 
-      // Handle empty file
-      if (!content.trim()) {
-        return [];
+    if (index < 0) {
+      throw new Error(
+        vscode.l10n.t('The user keybinding "{0}" on {1} is no longer in keybindings.json. Scan again and retry.', binding.command, binding.key)
+      );
+    }
+
+    const before = this.toEntry(document.entries[index]);
+    document.setProperty(index, 'key', newKey);
+    return { type: 'modified', before, after: { ...before, key: newKey } };
+  }
+
+  /**
+   * Extracts the fields the journal tracks from a keybindings.json entry
+   */
+  private toEntry(kb: any): KeybindingEntry {
+    const entry: KeybindingEntry = { key: kb.key, command: kb.command };
+    if (kb.when) {
+      entry.when = kb.when;
+    }
+    return entry;
+  }
+
+  private isSameEntry(kb: any, entry: KeybindingEntry): boolean {
+    return kb.key === entry.key &&
+      kb.command === entry.command &&
+      (kb.when || undefined) === (entry.when || undefined);
+  }
+
+  /**
+   * Reads keybindings.json as an editable document
+   * Refuses to continue if the file can't be parsed, so it's never overwritten
+   */
+  private readKeybindingsFile(filePath: string): KeybindingsDocument {
+    // Create file if it doesn't exist
+    if (!fs.existsSync(filePath)) {
+      const dir = path.dirname(filePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
       }
+      fs.writeFileSync(filePath, '[]', 'utf8');
+    }
 
-      // Parse JSON, handle comments by using a simple regex
-      const jsonContent = content.replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
-      return JSON.parse(jsonContent);
+    const content = fs.readFileSync(filePath, 'utf8');
+
+    try {
+      return new KeybindingsDocument(content);
     } catch (error) {
-      // If parse fails, return empty array
-      console.error('Failed to parse keybindings.json:', error);
-      return [];
+      throw new Error(
+        vscode.l10n.t('keybindings.json could not be parsed, so it was left unchanged. Fix the error and try again. ({0})', error instanceof Error ? error.message : String(error))
+      );
     }
   }
 
   /**
-   * Writes keybindings to file
+   * Writes the edited document back to file
    */
-  private writeKeybindingsFile(filePath: string, keybindings: any[]): void {
-    const content = JSON.stringify(keybindings, null, 2);
-    fs.writeFileSync(filePath, content, 'utf8');
+  private writeKeybindingsFile(filePath: string, document: KeybindingsDocument): void {
+    fs.writeFileSync(filePath, document.getText(), 'utf8');
   }
 }
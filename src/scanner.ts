@@ -1,17 +1,57 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
-import { KeybindingInfo, ConflictGroup } from './types';
+import {
+  KeybindingInfo,
+  ConflictGroup,
+  KeybindingContribution,
+  KeybindingPlatform,
+  KeybindingPolicy,
+  KeyboardLayoutId,
+  PolicyViolation,
+  ScanTarget
+} from './types';
+import { DEFAULT_KEYBINDINGS } from './defaultKeybindings';
+import { KeybindingsDocument, parseJsonc } from './jsonc';
+import { KeybindingsPathResolver } from './paths';
+import { getCurrentPlatform, PLATFORM_LABELS, resolveScanTarget } from './platform';
+import { IgnoreList } from './ignoreList';
+import { mergePolicies, parsePolicy, POLICY_FILE, PolicyChecker } from './policy';
+import {
+  BUILTIN_EXTENSION_ID,
+  collectContributedBindings,
+  ConflictDetector,
+  getUserBindings,
+  getUserDisabledCommands,
+  isDisabledByUser,
+  UserDisabledCommands
+} from './conflictDetector';
+
+/**
+ * Virtual document that holds the running editor's default keybindings
+ */
+const DEFAULT_KEYBINDINGS_URI = 'vscode://defaultsettings/keybindings.json';
+
+/**
+ * Owner of VS Code's built-in keybindings
+ */
+const BUILTIN_OWNER = { extensionId: BUILTIN_EXTENSION_ID, extensionName: 'VS Code', source: 'builtin' as const };
 
 /**
  * Scans all installed extensions for keybinding conflicts
+ * Collects bindings through the editor API and leaves the analysis to ConflictDetector
  */
 export class KeybindingScanner {
   private allBindings: KeybindingInfo[] = [];
   private outputChannel?: vscode.OutputChannel;
-
-  constructor(outputChannel?: vscode.OutputChannel) {
+  private pathResolver: KeybindingsPathResolver;
+  private keyboardLayout: KeyboardLayoutId = 'us';
+  private userDisabledCommands = getUserDisabledCommands([], getCurrentPlatform(), 'us');
+  private policyViolations: PolicyViolation[] = [];
+  private policyErrors: string[] = [];
+
+  constructor(pathResolver: KeybindingsPathResolver, outputChannel?: vscode.OutputChannel) {
+    this.pathResolver = pathResolver;
     this.outputChannel = outputChannel;
   }
 
@@ -23,15 +63,31 @@ export class KeybindingScanner {
 
   /**
    * Scans all extensions and returns conflicting keybindings
+   * Conflicts are reported per platform; the target defaults to the 'targetPlatform' setting
    */
-  public async scanConflicts(): Promise<ConflictGroup[]> {
-    this.allBindings = this.collectAllKeybindings();
-    const userDisabledCommands = this.getUserDisabledCommands();
-
-    const conflicts = this.findConflicts(this.allBindings, userDisabledCommands);
+  public async scanConflicts(target?: ScanTarget): Promise<ConflictGroup[]> {
+    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+    const platforms = resolveScanTarget(target ?? config.get<ScanTarget>('targetPlatform', 'current'));
+    const currentPlatform = getCurrentPlatform();
+    this.keyboardLayout = config.get<KeyboardLayoutId>('keyboardLayout', 'us');
+    const detector = new ConflictDetector({ filter: new IgnoreList(), log: message => this.log(message) });
+
+    // keybindings.json belongs to this machine, so it only applies to the current platform
+    const userKeybindings = platforms.includes(currentPlatform) ? this.readUserKeybindings() : [];
+    this.allBindings = [
+      ...await this.collectAllKeybindings(platforms),
+      ...getUserBindings(userKeybindings, currentPlatform, this.keyboardLayout)
+    ];
+    this.userDisabledCommands = getUserDisabledCommands(userKeybindings, currentPlatform, this.keyboardLayout);
+
+    const conflicts = detector.findConflicts(this.allBindings, platforms, this.userDisabledCommands);
+
+    // The team policy is about this machine's setup
+    this.policyViolations = platforms.includes(currentPlatform) ? this.checkPolicy(currentPlatform) : [];
 
     // Log summary
-    this.log(`[Scanner] Scanned ${this.allBindings.length} keybindings, found ${conflicts.length} conflicts`);
+    const overlapping = conflicts.filter(c => c.severity !== 'none').length;
+    this.log(`[Scanner] Scanned ${this.allBindings.length} keybindings for ${platforms.map(p => PLATFORM_LABELS[p]).join(', ')}, found ${overlapping} conflicts (${conflicts.length - overlapping} with mutually exclusive 'when' clauses)`);
 
     return conflicts;
   }
@@ -44,240 +100,156 @@ export class KeybindingScanner {
   }
 
   /**
-   * Collects keybindings from all installed extensions
+   * Gets the team keybinding policy violations found by the last scan
    */
-  private collectAllKeybindings(): KeybindingInfo[] {
-    const bindings: KeybindingInfo[] = [];
-
-    for (const extension of vscode.extensions.all) {
-      const packageJSON = extension.packageJSON;
+  public getPolicyViolations(): PolicyViolation[] {
+    return this.policyViolations;
+  }
 
-      // Skip extensions without keybindings
-      if (!packageJSON?.contributes?.keybindings) {
-        continue;
-      }
+  /**
+   * Gets the policy files the last scan couldn't read, with the reason
+   */
+  public getPolicyErrors(): string[] {
+    return this.policyErrors;
+  }
 
-      const extensionId = extension.id;
-      const extensionName = packageJSON.displayName || packageJSON.name || extensionId;
-
-      const keybindings = packageJSON.contributes.keybindings;
-
-      // Process each keybinding from this extension
-      for (const kb of keybindings) {
-        const keysToProcess: string[] = [];
-
-        // Determine which keys to use based on platform
-        // Priority: platform-specific > general key
-        if (process.platform === 'darwin' && kb.mac) {
-          // macOS - use mac-specific keys
-          const macKeys = Array.isArray(kb.mac) ? kb.mac : [kb.mac];
-          keysToProcess.push(...macKeys.filter((k: any) => k));
-        } else if (process.platform === 'linux' && kb.linux) {
-          // Linux - use linux-specific keys
-          const linuxKeys = Array.isArray(kb.linux) ? kb.linux : [kb.linux];
-          keysToProcess.push(...linuxKeys.filter((k: any) => k));
-        } else if (process.platform === 'win32' && kb.win) {
-          // Windows - use windows-specific keys
-          const winKeys = Array.isArray(kb.win) ? kb.win : [kb.win];
-          keysToProcess.push(...winKeys.filter((k: any) => k));
-        } else if (kb.key) {
-          // Fallback to general key if no platform-specific key
-          const keys = Array.isArray(kb.key) ? kb.key : [kb.key];
-          keysToProcess.push(...keys.filter((k: any) => k));
-        }
-
-        // Add all determined keys for this binding
-        for (const key of keysToProcess) {
-          bindings.push({
-            key: this.normalizeKey(key),
-            command: kb.command,
-            when: kb.when,
-            extensionId,
-            extensionName: extensionName
-          });
-        }
-      }
-    }
+  /**
+   * Gets what keybindings.json disables on this machine, as of the last scan
+   */
+  public getUserDisabledCommands(): UserDisabledCommands {
+    return this.userDisabledCommands;
+  }
 
-    return bindings;
+  /**
+   * Gets the keybindings that are in effect, leaving out the ones disabled in keybindings.json
+   */
+  public getEffectiveBindings(): KeybindingInfo[] {
+    return this.allBindings.filter(b => !isDisabledByUser(b, this.userDisabledCommands));
   }
 
   /**
-   * Normalizes key notation for consistent comparison
-   * Handles modifier key order: ctrl+shift+v and shift+ctrl+v become the same
-   * Handles chord keys: "ctrl+k ctrl+n" is different from "ctrl+n"
+   * Checks the keybindings in effect against the policy files of the open workspace folders
    */
-  private normalizeKey(key: string): string {
-    const normalized = key.toLowerCase().trim();
-
-    // Handle chord keys (space-separated) FIRST before splitting by +
-    // Examples: "ctrl+k ctrl+s", "ctrl+k v"
-    if (normalized.includes(' ')) {
-      return normalized
-        .split(' ')
-        .map(chord => this.normalizeSingleKey(chord))
-        .join(' ');
+  private checkPolicy(platform: KeybindingPlatform): PolicyViolation[] {
+    const policy = this.readPolicy();
+    if (!policy) {
+      return [];
     }
 
-    return this.normalizeSingleKey(normalized);
+    const violations = new PolicyChecker(policy, platform, this.keyboardLayout).check(this.getEffectiveBindings());
+    this.log(`[Policy] ${policy.required.length} required and ${policy.forbidden.length} forbidden key(s), ${violations.length} violation(s)`);
+    return violations;
   }
 
   /**
-   * Normalizes a single key combination (not a chord)
+   * Reads and merges the policy of every workspace folder that has one
    */
-  private normalizeSingleKey(key: string): string {
-    const normalized = key.toLowerCase().trim();
+  private readPolicy(): KeybindingPolicy | undefined {
+    const policies: KeybindingPolicy[] = [];
+    this.policyErrors = [];
 
-    // Split by + to get individual keys
-    const parts = normalized.split('+').map(p => p.trim());
-
-    // If only one part, return as-is
-    if (parts.length === 1) {
-      return normalized;
-    }
-
-    // Separate modifiers and main key
-    const modifiers: string[] = [];
-    let mainKey = '';
-
-    for (const part of parts) {
-      if (this.isModifierKey(part)) {
-        modifiers.push(part);
-      } else {
-        mainKey = part;
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const policyPath = path.join(folder.uri.fsPath, POLICY_FILE);
+      if (!fs.existsSync(policyPath)) {
+        continue;
       }
-    }
 
-    // Sort modifiers in a consistent order
-    const modifierOrder = ['ctrl', 'cmd', 'alt', 'shift', 'meta', 'win'];
-    modifiers.sort((a, b) => {
-      const indexA = modifierOrder.indexOf(a);
-      const indexB = modifierOrder.indexOf(b);
-      return indexA - indexB;
-    });
-
-    // Reconstruct key combination
-    if (mainKey) {
-      return [...modifiers, mainKey].join('+');
-    } else {
-      return modifiers.join('+');
+      try {
+        policies.push(parsePolicy(fs.readFileSync(policyPath, 'utf8')));
+      } catch (error) {
+        const message = `${policyPath}: ${error instanceof Error ? error.message : error}`;
+        this.policyErrors.push(message);
+        this.log(`[Policy] Failed to read ${message}`);
+      }
     }
-  }
 
-  /**
-   * Checks if a key is a modifier key
-   */
-  private isModifierKey(key: string): boolean {
-    const modifiers = ['ctrl', 'cmd', 'alt', 'shift', 'meta', 'win', 'command', 'option', 'control'];
-    return modifiers.includes(key.toLowerCase());
+    return policies.length > 0 ? mergePolicies(policies) : undefined;
   }
 
   /**
-   * Gets user-disabled commands from keybindings.json
+   * Collects keybindings from VS Code itself and all installed extensions
    */
-  private getUserDisabledCommands(): Set<string> {
-    const disabledCommands = new Set<string>();
+  private async collectAllKeybindings(platforms: KeybindingPlatform[]): Promise<KeybindingInfo[]> {
+    const bindings: KeybindingInfo[] = [];
 
-    try {
-      const keybindingsPath = this.getKeybindingsPath();
+    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+    if (config.get<boolean>('includeBuiltinKeybindings', true)) {
+      bindings.push(...await this.collectBuiltinKeybindings(platforms));
+    }
 
-      if (!fs.existsSync(keybindingsPath)) {
-        return disabledCommands;
-      }
+    for (const extension of vscode.extensions.all) {
+      const packageJSON = extension.packageJSON;
 
-      const content = fs.readFileSync(keybindingsPath, 'utf8');
-      if (!content.trim()) {
-        return disabledCommands;
+      // Skip extensions without keybindings
+      if (!packageJSON?.contributes?.keybindings) {
+        continue;
       }
 
-      // Parse JSON, removing comments
-      const jsonContent = content.replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
-      const userKeybindings = JSON.parse(jsonContent);
-
-      // Find disabled commands (command starts with '-' or key is empty)
-      for (const kb of userKeybindings) {
-        if (kb.command && kb.command.startsWith('-')) {
-          // Remove the '-' prefix to get the actual command
-          const actualCommand = kb.command.substring(1);
-          disabledCommands.add(actualCommand);
-        } else if (kb.command && (!kb.key || kb.key === '')) {
-          // Empty key also means disabled
-          disabledCommands.add(kb.command);
-        }
-      }
-    } catch (error) {
-      console.error('Failed to read user keybindings:', error);
+      const owner = {
+        extensionId: extension.id,
+        extensionName: packageJSON.displayName || packageJSON.name || extension.id,
+        source: 'extension' as const
+      };
+      bindings.push(...collectContributedBindings(packageJSON.contributes.keybindings, owner, platforms, this.keyboardLayout));
     }
 
-    return disabledCommands;
+    return bindings;
   }
 
   /**
-   * Gets the path to user's keybindings.json
+   * Collects VS Code's built-in default keybindings
+   * Reads the editor's default keybindings document for the current platform,
+   * and uses a bundled snapshot for other platforms or when the document is unavailable
    */
-  private getKeybindingsPath(): string {
-    const platform = process.platform;
-    const homeDir = os.homedir();
-
-    let configPath: string;
-
-    if (platform === 'win32') {
-      configPath = path.join(homeDir, 'AppData', 'Roaming', 'Code', 'User', 'keybindings.json');
-    } else if (platform === 'darwin') {
-      configPath = path.join(homeDir, 'Library', 'Application Support', 'Code', 'User', 'keybindings.json');
-    } else {
-      configPath = path.join(homeDir, '.config', 'Code', 'User', 'keybindings.json');
+  private async collectBuiltinKeybindings(platforms: KeybindingPlatform[]): Promise<KeybindingInfo[]> {
+    const bindings: KeybindingInfo[] = [];
+    const currentPlatform = getCurrentPlatform();
+
+    for (const platform of platforms) {
+      const defaults = platform === currentPlatform
+        ? await this.readDefaultKeybindingsDocument() ?? DEFAULT_KEYBINDINGS
+        : DEFAULT_KEYBINDINGS;
+
+      bindings.push(...collectContributedBindings(defaults, BUILTIN_OWNER, [platform], this.keyboardLayout));
     }
 
-    return configPath;
+    return bindings;
   }
 
   /**
-   * Groups keybindings by key and filters for conflicts
-   * Only considers it a conflict if different extensions use the same key
-   * Same extension with different 'when' clauses is NOT a conflict
+   * Reads the running editor's default keybindings (already resolved for the current platform)
    */
-  private findConflicts(bindings: KeybindingInfo[], userDisabledCommands: Set<string>): ConflictGroup[] {
-    // Group by key
-    const groupedByKey = new Map<string, KeybindingInfo[]>();
-
-    for (const binding of bindings) {
-      // Skip if user has disabled this command
-      if (userDisabledCommands.has(binding.command)) {
-        continue;
-      }
-
-      const key = binding.key;
-      if (!groupedByKey.has(key)) {
-        groupedByKey.set(key, []);
+  private async readDefaultKeybindingsDocument(): Promise<KeybindingContribution[] | undefined> {
+    try {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(DEFAULT_KEYBINDINGS_URI));
+      const defaults = parseJsonc(document.getText());
+      if (!Array.isArray(defaults)) {
+        throw new Error('unexpected document format');
       }
-      groupedByKey.get(key)!.push(binding);
+      this.log(`[Scanner] Loaded ${defaults.length} built-in keybindings from ${DEFAULT_KEYBINDINGS_URI}`);
+      return defaults;
+    } catch (error) {
+      this.log(`[Scanner] Default keybindings document unavailable, using bundled snapshot (${error})`);
+      return undefined;
     }
+  }
 
-    // Filter groups with actual conflicts
-    const conflicts: ConflictGroup[] = [];
-
-    for (const [key, bindingsForKey] of groupedByKey.entries()) {
-      if (bindingsForKey.length > 1) {
-        // Check if there are multiple different extensions
-        const extensionIds = new Set(bindingsForKey.map(b => b.extensionId));
-
-        // Only report as conflict if multiple extensions are involved
-        if (extensionIds.size > 1) {
-          conflicts.push({
-            key,
-            bindings: bindingsForKey
-          });
-        } else {
-          // Same extension, different 'when' clauses - not a conflict
-          this.log(`[Scanner] Skipping same-extension bindings for key "${key}" (${bindingsForKey[0].extensionName}, ${bindingsForKey.length} variants with different 'when' clauses)`);
-        }
-      }
-    }
+  /**
+   * Reads the raw entries of user's keybindings.json
+   */
+  private readUserKeybindings(): KeybindingContribution[] {
+    try {
+      const keybindingsPath = this.pathResolver.getKeybindingsPath();
 
-    // Sort by key for consistent display
-    conflicts.sort((a, b) => a.key.localeCompare(b.key));
+      if (!fs.existsSync(keybindingsPath)) {
+        return [];
+      }
 
-    return conflicts;
+      const content = fs.readFileSync(keybindingsPath, 'utf8');
+      return new KeybindingsDocument(content).entries;
+    } catch (error) {
+      this.log(`[Scanner] Failed to read user keybindings: ${error instanceof Error ? error.message : error}`);
+      return [];
+    }
   }
 }
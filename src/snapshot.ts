@@ -0,0 +1,138 @@
+import {
+  ConflictGroup,
+  ExtensionBindingChanges,
+  ExtensionChangeKind,
+  KeybindingInfo,
+  KeybindingPlatform,
+  KeybindingSnapshot,
+  KeyboardLayoutId
+} from './types';
+
+/**
+ * An extension's identity at the time a snapshot is taken
+ */
+export interface ExtensionVersion {
+  id: string;
+  version: string;
+}
+
+/**
+ * Records the built-in and extension bindings of one platform, grouped by extension
+ * User keybindings are left out: they aren't something an extension change brings in
+ */
+export function createSnapshot(
+  bindings: KeybindingInfo[],
+  extensions: ExtensionVersion[],
+  platform: KeybindingPlatform,
+  keyboardLayout: KeyboardLayoutId
+): KeybindingSnapshot {
+  const versions = new Map(extensions.map(e => [e.id, e.version]));
+  const snapshot: KeybindingSnapshot = {
+    timestamp: new Date().toISOString(),
+    platform,
+    keyboardLayout,
+    extensions: {}
+  };
+
+  for (const binding of bindings) {
+    if (binding.source === 'user' || binding.platform !== platform) {
+      continue;
+    }
+
+    if (!snapshot.extensions[binding.extensionId]) {
+      snapshot.extensions[binding.extensionId] = {
+        name: binding.extensionName,
+        version: versions.get(binding.extensionId) ?? '',
+        bindings: []
+      };
+    }
+    snapshot.extensions[binding.extensionId].bindings.push(binding);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Whether two snapshots describe keys the same way
+ * Keys are normalized per platform and keyboard layout, so other snapshots would differ on every key
+ */
+export function canCompareSnapshots(previous: KeybindingSnapshot, current: KeybindingSnapshot): boolean {
+  return previous.platform === current.platform && previous.keyboardLayout === current.keyboardLayout;
+}
+
+/**
+ * Lists, per extension, the bindings added, removed or moved to another key between two snapshots
+ * A binding counts as moved when the same command and 'when' clause lost one key and gained another
+ */
+export function diffSnapshots(previous: KeybindingSnapshot, current: KeybindingSnapshot): ExtensionBindingChanges[] {
+  const ids = [
+    ...Object.keys(current.extensions),
+    ...Object.keys(previous.extensions).filter(id => !(id in current.extensions))
+  ];
+  const changes: ExtensionBindingChanges[] = [];
+
+  for (const id of ids) {
+    const before = previous.extensions[id];
+    const after = current.extensions[id];
+    const beforeIds = new Set((before?.bindings ?? []).map(getBindingId));
+    const afterIds = new Set((after?.bindings ?? []).map(getBindingId));
+
+    const added = (after?.bindings ?? []).filter(b => !beforeIds.has(getBindingId(b)));
+    const removed = (before?.bindings ?? []).filter(b => !afterIds.has(getBindingId(b)));
+    const rekeyed: ExtensionBindingChanges['rekeyed'] = [];
+
+    for (const from of [...removed]) {
+      const index = added.findIndex(to => to.command === from.command && (to.when ?? '') === (from.when ?? ''));
+      if (index < 0) {
+        continue;
+      }
+      rekeyed.push({ from, to: added[index] });
+      added.splice(index, 1);
+      removed.splice(removed.indexOf(from), 1);
+    }
+
+    if (added.length === 0 && removed.length === 0 && rekeyed.length === 0) {
+      continue;
+    }
+
+    changes.push({
+      extensionId: id,
+      extensionName: (after ?? before)!.name,
+      kind: getChangeKind(before?.version, after?.version),
+      previousVersion: before?.version,
+      version: after?.version,
+      added,
+      removed,
+      rekeyed
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Picks the conflicts that involve a binding the previous snapshot didn't have
+ */
+export function findNewConflicts(previous: KeybindingSnapshot, conflicts: ConflictGroup[]): ConflictGroup[] {
+  const known = new Set(Object.values(previous.extensions).flatMap(e => e.bindings.map(getBindingId)));
+
+  return conflicts.filter(conflict =>
+    conflict.severity !== 'none' &&
+    conflict.platform === previous.platform &&
+    conflict.bindings.some(b => b.source !== 'user' && !known.has(getBindingId(b)))
+  );
+}
+
+function getChangeKind(previousVersion?: string, version?: string): ExtensionChangeKind {
+  if (previousVersion === undefined) {
+    return 'added';
+  }
+  if (version === undefined) {
+    return 'removed';
+  }
+  return previousVersion !== version ? 'updated' : 'changed';
+}
+
+function getBindingId(binding: KeybindingInfo): string {
+  return [binding.extensionId, binding.key, binding.command, binding.when ?? ''].join('\u0000');
+}
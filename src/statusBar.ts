@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { ConflictTreeProvider } from './conflictTree';
+
+/**
+ * Shows the conflict count of the last scan in the status bar, coloured by the worst severity
+ * Follows the Conflicts view, so it updates whenever a scan does; clicking it opens the resolution UI
+ */
+export class ConflictStatusBar implements vscode.Disposable {
+  private conflictTree: ConflictTreeProvider;
+  private item = vscode.window.createStatusBarItem('keybindingConflictScanner.status', vscode.StatusBarAlignment.Right, 100);
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(conflictTree: ConflictTreeProvider) {
+    this.conflictTree = conflictTree;
+    this.item.name = vscode.l10n.t('Keybinding Conflicts');
+    this.item.command = 'keybinding-conflict-scanner.scan';
+
+    this.disposables.push(
+      this.item,
+      conflictTree.onDidChangeTreeData(() => this.render()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('keybindingConflictScanner.showStatusBar')) {
+          this.render();
+        }
+      })
+    );
+
+    this.render();
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  private render(): void {
+    const config = vscode.workspace.getConfiguration('keybindingConflictScanner');
+    if (!config.get<boolean>('showStatusBar', true)) {
+      this.item.hide();
+      return;
+    }
+
+    const results = this.conflictTree.getResults();
+    if (!results) {
+      this.item.text = `$(keyboard) ${vscode.l10n.t('Scan')}`;
+      this.item.tooltip = vscode.l10n.t('Keybinding Conflict Scanner: Click to scan for conflicts');
+      this.item.backgroundColor = undefined;
+      this.item.show();
+      return;
+    }
+
+    const definite = results.conflicts.filter(c => c.severity === 'definite').length;
+    const possible = results.conflicts.filter(c => c.severity === 'possible').length;
+    const violations = results.violations?.length ?? 0;
+
+    this.item.text = definite + possible > 0 ? `$(keyboard) ${definite + possible}` : '$(keyboard) $(check)';
+    this.item.backgroundColor = definite > 0
+      ? new vscode.ThemeColor('statusBarItem.errorBackground')
+      : possible > 0 || violations > 0
+        ? new vscode.ThemeColor('statusBarItem.warningBackground')
+        : undefined;
+
+    const lines = [
+      definite + possible > 0
+        ? vscode.l10n.t('Keybinding Conflict Scanner: {0} definite, {1} possible conflict(s)', definite, possible)
+        : vscode.l10n.t('Keybinding Conflict Scanner: No conflicts'),
+      ...(violations > 0 ? [vscode.l10n.t('{0} team keybinding policy violation(s)', violations)] : []),
+      vscode.l10n.t('Last scan: {0}', new Date(results.timestamp).toLocaleString()),
+      vscode.l10n.t('Click to resolve')
+    ];
+    this.item.tooltip = lines.join('\n');
+    this.item.show();
+  }
+}
@@ -0,0 +1,120 @@
+import { formatKeybinding, tryParseKeybinding } from './keys';
+import { WhenClauseAnalyzer } from './whenClause';
+import { KeyChord, KeybindingInfo, KeybindingPlatform } from './types';
+
+type Modifier = keyof Omit<KeyChord, 'keyCode'>;
+
+/**
+ * Modifiers added to the original key, in order of preference
+ * The Windows/Super key is only suggested on macOS, where it is the Command key
+ */
+const EXTRA_MODIFIERS: Record<KeybindingPlatform, Modifier[][]> = {
+  win: [['shift'], ['alt'], ['ctrl'], ['ctrl', 'shift'], ['ctrl', 'alt'], ['shift', 'alt'], ['ctrl', 'shift', 'alt']],
+  linux: [['shift'], ['alt'], ['ctrl'], ['ctrl', 'shift'], ['ctrl', 'alt'], ['shift', 'alt'], ['ctrl', 'shift', 'alt']],
+  mac: [['shift'], ['alt'], ['meta'], ['ctrl'], ['meta', 'shift'], ['meta', 'alt'], ['ctrl', 'meta'], ['shift', 'alt']]
+};
+
+/**
+ * Finds unused key combinations near a binding's key, and keys that would collide with it
+ * Keys bound under 'when' clauses that never overlap with the binding's count as free
+ */
+export class KeySuggester {
+  private platform: KeybindingPlatform;
+  private whenAnalyzer = new WhenClauseAnalyzer();
+  private bindingsByKey = new Map<string, KeybindingInfo[]>();
+  private chordsByPrefix = new Map<string, KeybindingInfo[]>();
+
+  constructor(allBindings: KeybindingInfo[], platform: KeybindingPlatform) {
+    this.platform = platform;
+
+    for (const binding of allBindings) {
+      if (binding.platform !== platform) {
+        continue;
+      }
+      this.bindingsByKey.set(binding.key, [...(this.bindingsByKey.get(binding.key) ?? []), binding]);
+
+      const spaceIndex = binding.key.indexOf(' ');
+      if (spaceIndex > 0) {
+        const prefix = binding.key.substring(0, spaceIndex);
+        this.chordsByPrefix.set(prefix, [...(this.chordsByPrefix.get(prefix) ?? []), binding]);
+      }
+    }
+  }
+
+  /**
+   * Suggests free keys for a binding, closest to its current key first
+   * Keys in 'reserved' (e.g. already proposed for other bindings) are skipped
+   */
+  public suggest(binding: KeybindingInfo, count = 5, reserved: Set<string> = new Set()): string[] {
+    const parsed = tryParseKeybinding(binding.key);
+    if (!parsed) {
+      return [];
+    }
+
+    const leading = parsed.chords.slice(0, -1);
+    const last = parsed.chords[parsed.chords.length - 1];
+    const candidates: string[] = [];
+
+    // The same key with extra modifiers, e.g. ctrl+k -> ctrl+shift+k
+    for (const modifiers of EXTRA_MODIFIERS[this.platform]) {
+      if (modifiers.some(m => last[m])) {
+        continue;
+      }
+      const chord = { ...last };
+      modifiers.forEach(m => chord[m] = true);
+      candidates.push(formatKeybinding({ chords: [...leading, chord] }, this.platform));
+    }
+
+    // A chord under a prefix that is already in use, most used prefixes first, e.g. ctrl+k ctrl+shift+k
+    const prefixes = Array.from(this.chordsByPrefix.entries())
+      .sort((a, b) => b[1].length - a[1].length)
+      .map(([prefix]) => prefix);
+    const lastChord = formatKeybinding({ chords: [last] }, this.platform);
+    const plainKey = formatKeybinding({ chords: [{ ctrl: false, shift: false, alt: false, meta: false, keyCode: last.keyCode }] }, this.platform);
+
+    for (const prefix of prefixes) {
+      candidates.push(`${prefix} ${lastChord}`, `${prefix} ${plainKey}`);
+    }
+
+    const suggestions: string[] = [];
+    for (const candidate of candidates) {
+      if (suggestions.length >= count) {
+        break;
+      }
+      if (candidate !== binding.key && !reserved.has(candidate) && !suggestions.includes(candidate) && this.isFree(candidate, binding)) {
+        suggestions.push(candidate);
+      }
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Finds a binding of another command on the same key whose 'when' clause can be active together with the binding's
+   */
+  public findCollision(key: string, binding: KeybindingInfo): KeybindingInfo | undefined {
+    return (this.bindingsByKey.get(key) ?? []).find(other =>
+      other.command !== binding.command &&
+      this.whenAnalyzer.canOverlap(other.when, binding.when)
+    );
+  }
+
+  /**
+   * A key is free if nothing collides with it, it doesn't shadow chords starting with it,
+   * and it isn't a chord whose first key is bound on its own
+   */
+  private isFree(key: string, binding: KeybindingInfo): boolean {
+    if (this.findCollision(key, binding)) {
+      return false;
+    }
+
+    const overlaps = (other: KeybindingInfo) =>
+      other.command !== binding.command && this.whenAnalyzer.canOverlap(other.when, binding.when);
+
+    const spaceIndex = key.indexOf(' ');
+    if (spaceIndex < 0) {
+      return !(this.chordsByPrefix.get(key) ?? []).some(overlaps);
+    }
+    return !(this.bindingsByKey.get(key.substring(0, spaceIndex)) ?? []).some(overlaps);
+  }
+}
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { AutoResolver } from '../autoResolve';
+import { AutoResolutionPlan, ConflictGroup, KeybindingInfo, ResolutionRules } from '../types';
+
+function binding(extensionId: string, command: string, key = 'ctrl+k'): KeybindingInfo {
+  return { key, command, extensionId, extensionName: extensionId, source: 'extension', platform: 'linux' };
+}
+
+function conflict(...bindings: KeybindingInfo[]): ConflictGroup {
+  return { key: bindings[0].key, bindings, severity: 'definite', kind: 'exact', platform: 'linux' };
+}
+
+function plan(rules: Partial<ResolutionRules>, conflicts: ConflictGroup[]) {
+  return new AutoResolver({ priorities: [], pinnedKeys: [], ...rules }, 'linux', 'us').plan(conflicts);
+}
+
+function disabledCommands(result: AutoResolutionPlan): string[] {
+  return result.actions.flatMap(action => action.type === 'disable' ? action.bindings.map(b => b.command) : []);
+}
+
+suite('AutoResolver', () => {
+  test('the highest ranked extension wins and the others are disabled', () => {
+    const result = plan(
+      { priorities: [{ extension: 'b.two' }, { extension: 'a.one' }] },
+      [conflict(binding('a.one', 'one.run'), binding('b.two', 'two.run'))]
+    );
+
+    assert.deepStrictEqual(result.decisions.map(d => d.winners.map(b => b.command)), [['two.run']]);
+    assert.deepStrictEqual(disabledCommands(result), ['one.run']);
+    assert.strictEqual(result.decisions[0].reason, 'priority #1 (b.two)');
+  });
+
+  test('a command rule only ranks that command', () => {
+    const result = plan(
+      { priorities: [{ extension: 'a.one', command: 'one.other' }, { extension: 'b.two' }] },
+      [conflict(binding('a.one', 'one.run'), binding('b.two', 'two.run'))]
+    );
+
+    assert.deepStrictEqual(result.decisions[0].winners.map(b => b.command), ['two.run']);
+  });
+
+  test('a pinned key keeps its command, whatever the priorities say', () => {
+    const result = plan(
+      { priorities: [{ extension: 'b.two' }], pinnedKeys: [{ key: 'Ctrl+K', command: 'one.run' }] },
+      [conflict(binding('a.one', 'one.run'), binding('b.two', 'two.run'))]
+    );
+
+    assert.deepStrictEqual(result.decisions[0].winners.map(b => b.command), ['one.run']);
+    assert.strictEqual(result.decisions[0].reason, 'ctrl+k is pinned to one.run');
+  });
+
+  test('conflicts without a rule or with a user keybinding are skipped', () => {
+    const user = { ...binding('user', 'mine.run'), source: 'user' as const };
+    const result = plan(
+      { priorities: [{ extension: 'a.one' }] },
+      [
+        conflict(binding('c.three', 'three.run', 'ctrl+j'), binding('d.four', 'four.run', 'ctrl+j')),
+        conflict(binding('a.one', 'one.run', 'ctrl+u'), user)
+      ]
+    );
+
+    assert.deepStrictEqual(result.actions, []);
+    assert.deepStrictEqual(result.skipped.map(s => s.reason), ['no rule applies', 'includes your own keybinding']);
+  });
+
+  test('a binding kept in one conflict isn\'t disabled for losing another', () => {
+    const shared = binding('a.one', 'one.run');
+    const result = plan(
+      { priorities: [{ extension: 'b.two' }, { extension: 'a.one' }, { extension: 'c.three' }] },
+      [
+        conflict(shared, binding('b.two', 'two.run')),
+        conflict({ ...shared }, binding('c.three', 'three.run'))
+      ]
+    );
+
+    assert.deepStrictEqual(disabledCommands(result), ['three.run']);
+  });
+});
@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import { collectContributedBindings, ConflictDetector, getUserDisabledCommands, isDisabledByUser } from '../conflictDetector';
+import { KeybindingInfo } from '../types';
+
+function binding(extensionId: string, key: string, command: string, when?: string): KeybindingInfo {
+  return { key, command, when, extensionId, extensionName: extensionId, source: 'extension', platform: 'linux' };
+}
+
+suite('ConflictDetector', () => {
+  const detector = new ConflictDetector();
+
+  test('bindings of different extensions on one key conflict', () => {
+    const conflicts = detector.findConflicts([
+      binding('a.one', 'ctrl+k', 'one.run'),
+      binding('b.two', 'ctrl+k', 'two.run'),
+      binding('b.two', 'ctrl+j', 'two.stop')
+    ], ['linux']);
+
+    assert.strictEqual(conflicts.length, 1);
+    assert.strictEqual(conflicts[0].key, 'ctrl+k');
+    assert.strictEqual(conflicts[0].kind, 'exact');
+    assert.strictEqual(conflicts[0].severity, 'definite');
+  });
+
+  test('bindings of one extension on one key don\'t conflict', () => {
+    const conflicts = detector.findConflicts([
+      binding('a.one', 'ctrl+k', 'one.run', 'editorTextFocus'),
+      binding('a.one', 'ctrl+k', 'one.stop', 'terminalFocus')
+    ], ['linux']);
+
+    assert.deepStrictEqual(conflicts, []);
+  });
+
+  test('severity follows the when clauses', () => {
+    const severityOf = (a?: string, b?: string) => detector.findConflicts([
+      binding('a.one', 'ctrl+k', 'one.run', a),
+      binding('b.two', 'ctrl+k', 'two.run', b)
+    ], ['linux'])[0].severity;
+
+    assert.strictEqual(severityOf('editorTextFocus && !editorReadonly', '!editorReadonly && editorTextFocus'), 'definite');
+    assert.strictEqual(severityOf('editorTextFocus', 'editorHasSelection'), 'possible');
+    assert.strictEqual(severityOf('editorTextFocus', 'terminalFocus'), 'none');
+  });
+
+  test('conflicts are sorted by key', () => {
+    const conflicts = detector.findConflicts([
+      binding('a.one', 'ctrl+m', 'one.m'),
+      binding('b.two', 'ctrl+m', 'two.m'),
+      binding('a.one', 'ctrl+b', 'one.b'),
+      binding('b.two', 'ctrl+b', 'two.b')
+    ], ['linux']);
+
+    assert.deepStrictEqual(conflicts.map(c => c.key), ['ctrl+b', 'ctrl+m']);
+  });
+
+  test('a single key shadows the chords of another extension that start with it', () => {
+    const conflicts = detector.findConflicts([
+      binding('a.one', 'ctrl+k', 'one.run'),
+      binding('b.two', 'ctrl+k ctrl+s', 'two.save'),
+      binding('b.two', 'ctrl+k ctrl+o', 'two.open', 'terminalFocus')
+    ], ['linux']);
+
+    assert.strictEqual(conflicts.length, 1);
+    assert.strictEqual(conflicts[0].kind, 'prefix');
+    assert.strictEqual(conflicts[0].key, 'ctrl+k');
+    assert.strictEqual(conflicts[0].severity, 'definite');
+    assert.deepStrictEqual(conflicts[0].bindings.map(b => b.command), ['one.run', 'two.save', 'two.open']);
+  });
+
+  test('an extension doesn\'t shadow its own chords', () => {
+    const conflicts = detector.findConflicts([
+      binding('a.one', 'ctrl+k', 'one.run'),
+      binding('a.one', 'ctrl+k ctrl+s', 'one.save')
+    ], ['linux']);
+
+    assert.deepStrictEqual(conflicts, []);
+  });
+
+  test('prefix shadowing follows the when clauses too', () => {
+    const conflicts = detector.findConflicts([
+      binding('a.one', 'ctrl+k', 'one.run', 'editorTextFocus'),
+      binding('b.two', 'ctrl+k ctrl+s', 'two.save', 'terminalFocus')
+    ], ['linux']);
+
+    assert.strictEqual(conflicts[0].severity, 'none');
+  });
+
+  test('contributions use their platform-specific key, falling back to the general one', () => {
+    const bindings = collectContributedBindings(
+      [{ key: 'ctrl+k', mac: 'cmd+k', command: 'one.run' }, { key: 'alt+x', command: '-one.stop' }],
+      { extensionId: 'a.one', extensionName: 'One', source: 'extension' },
+      ['win', 'mac', 'linux'],
+      'us'
+    );
+
+    assert.deepStrictEqual(bindings.map(b => [b.platform, b.key]), [['win', 'ctrl+k'], ['mac', 'cmd+k'], ['linux', 'ctrl+k']]);
+  });
+
+  test('conflicts are found on each platform separately', () => {
+    const conflicts = detector.findConflicts([
+      { ...binding('a.one', 'ctrl+k', 'one.run'), platform: 'win' },
+      { ...binding('b.two', 'ctrl+k', 'two.run'), platform: 'win' },
+      { ...binding('a.one', 'cmd+k', 'one.run'), platform: 'mac' },
+      { ...binding('b.two', 'ctrl+k', 'two.run'), platform: 'mac' }
+    ], ['win', 'mac']);
+
+    assert.deepStrictEqual(conflicts.map(c => [c.platform, c.key]), [['win', 'ctrl+k']]);
+  });
+
+  test('platforms outside the target aren\'t scanned', () => {
+    const conflicts = detector.findConflicts([
+      { ...binding('a.one', 'ctrl+k', 'one.run'), platform: 'win' },
+      { ...binding('b.two', 'ctrl+k', 'two.run'), platform: 'win' }
+    ], ['linux']);
+
+    assert.deepStrictEqual(conflicts, []);
+  });
+
+  test('a -command entry with a key removes only that key of the command', () => {
+    const disabled = getUserDisabledCommands([{ key: 'Ctrl+K', command: '-one.run' }], 'linux', 'us');
+
+    assert.ok(isDisabledByUser(binding('a.one', 'ctrl+k', 'one.run'), disabled));
+    assert.ok(!isDisabledByUser(binding('a.one', 'ctrl+j', 'one.run'), disabled));
+  });
+
+  test('a -command entry without a key, or an empty key, disables every key of the command', () => {
+    const disabled = getUserDisabledCommands([{ command: '-one.run' }, { key: '', command: 'two.run' }], 'linux', 'us');
+
+    assert.ok(isDisabledByUser(binding('a.one', 'ctrl+j', 'one.run'), disabled));
+    assert.ok(isDisabledByUser(binding('b.two', 'ctrl+k', 'two.run'), disabled));
+  });
+
+  test('keybindings.json only disables bindings of its own platform, and never the user\'s own', () => {
+    const disabled = getUserDisabledCommands([{ command: '-one.run' }], 'linux', 'us');
+
+    assert.ok(!isDisabledByUser({ ...binding('a.one', 'ctrl+k', 'one.run'), platform: 'win' }, disabled));
+    assert.ok(!isDisabledByUser({ ...binding('user', 'ctrl+k', 'one.run'), source: 'user' }, disabled));
+  });
+
+  test('other keys of a command moved off one key still conflict', () => {
+    const conflicts = detector.findConflicts([
+      binding('a.one', 'ctrl+k', 'one.run'),
+      binding('a.one', 'ctrl+j', 'one.run'),
+      binding('b.two', 'ctrl+k', 'two.run'),
+      binding('b.two', 'ctrl+j', 'two.run')
+    ], ['linux'], getUserDisabledCommands([{ key: 'ctrl+k', command: '-one.run' }], 'linux', 'us'));
+
+    assert.deepStrictEqual(conflicts.map(c => c.key), ['ctrl+j']);
+  });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResolutionHistory } from '../history';
+
+suite('ResolutionHistory', () => {
+  let directory: string;
+
+  setup(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'kcs-test-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('resolutions recorded at the same time get their own id and backup', () => {
+    const history = new ResolutionHistory(directory);
+    const first = history.record('disable', 'first', 'keybindings.json', [], 'one');
+    const second = history.record('disable', 'second', 'keybindings.json', [], 'two');
+
+    assert.notStrictEqual(first.id, second.id);
+    assert.notStrictEqual(first.backupFile, second.backupFile);
+    assert.strictEqual(history.readBackup(first), 'one');
+    assert.strictEqual(history.readBackup(second), 'two');
+  });
+
+  test('records are listed newest first', () => {
+    const history = new ResolutionHistory(directory);
+    const records = ['first', 'second', 'third'].map(summary =>
+      history.record('disable', summary, 'keybindings.json', [], summary)
+    );
+    records[0].timestamp = '2026-01-03T00:00:00.000Z';
+    records[1].timestamp = '2026-01-01T00:00:00.000Z';
+    records[2].timestamp = '2026-01-02T00:00:00.000Z';
+    fs.writeFileSync(path.join(directory, 'resolution-history.json'), JSON.stringify(records));
+
+    assert.deepStrictEqual(history.getRecords().map(r => r.summary), ['first', 'third', 'second']);
+    assert.deepStrictEqual(history.getRecordsSince(records[2]).map(r => r.summary), ['first', 'third']);
+  });
+
+  test('a resolution and the ones after it are found by their order', () => {
+    const history = new ResolutionHistory(directory);
+    const first = history.record('disable', 'first', 'keybindings.json', [], 'one');
+    history.record('disable', 'second', 'keybindings.json', [], 'two');
+    history.record('disable', 'third', 'keybindings.json', [], 'three');
+
+    assert.deepStrictEqual(history.getRecordsSince(first).map(r => r.summary), ['third', 'second', 'first']);
+  });
+
+  test('an unreadable journal is reported and treated as empty', () => {
+    const messages: string[] = [];
+    const history = new ResolutionHistory(directory, message => messages.push(message));
+    fs.writeFileSync(path.join(directory, 'resolution-history.json'), '{ broken');
+
+    assert.deepStrictEqual(history.getRecords(), []);
+    assert.strictEqual(messages.length, 1);
+  });
+});
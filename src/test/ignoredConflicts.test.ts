@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { IgnoredConflictMatcher, isValidIgnoredConflict } from '../ignoredConflicts';
+import { ConflictGroup, KeybindingInfo } from '../types';
+
+function binding(extensionId: string, command: string): KeybindingInfo {
+  return { key: 'ctrl+k', command, extensionId, extensionName: extensionId, source: 'extension', platform: 'linux' };
+}
+
+function conflict(...bindings: KeybindingInfo[]): ConflictGroup {
+  return { key: 'ctrl+k', bindings, severity: 'definite', kind: 'exact', platform: 'linux' };
+}
+
+suite('IgnoredConflictMatcher', () => {
+  const matcher = new IgnoredConflictMatcher([
+    { key: 'ctrl+k', commands: ['one.run', 'two.run'] },
+    { extensionId: 'c.three' }
+  ]);
+
+  test('a conflict is ignored when every command on the key was acknowledged', () => {
+    assert.ok(matcher.isConflictIgnored(conflict(binding('a.one', 'one.run'), binding('b.two', 'two.run'))));
+  });
+
+  test('a new binding on the key brings the conflict back', () => {
+    assert.ok(!matcher.isConflictIgnored(conflict(
+      binding('a.one', 'one.run'),
+      binding('b.two', 'two.run'),
+      binding('d.four', 'four.run')
+    )));
+  });
+
+  test('the same commands on another key aren\'t ignored', () => {
+    const group = { ...conflict(binding('a.one', 'one.run'), binding('b.two', 'two.run')), key: 'ctrl+j' };
+    assert.ok(!matcher.isConflictIgnored(group));
+  });
+
+  test('extensions are ignored by ID', () => {
+    assert.ok(matcher.isExtensionIgnored('c.three'));
+    assert.ok(!matcher.isExtensionIgnored('a.one'));
+  });
+
+  test('hand-edited entries of the wrong shape are rejected', () => {
+    assert.ok(isValidIgnoredConflict({ extensionId: 'a.one' }));
+    assert.ok(isValidIgnoredConflict({ key: 'ctrl+k', commands: [] }));
+    assert.ok(!isValidIgnoredConflict({ key: 'ctrl+k', commands: 'one.run' }));
+    assert.ok(!isValidIgnoredConflict('ctrl+k'));
+    assert.ok(!isValidIgnoredConflict(null));
+  });
+});
@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import { KeybindingsDocument, parseJsonc } from '../jsonc';
+
+const SAMPLE = [
+  '// Place your key bindings in this file',
+  '[',
+  '  {',
+  '    "key": "ctrl+a",',
+  '    "command": "one.run"',
+  '  },',
+  '  // Second entry',
+  '  {',
+  '    "key": "ctrl+b",',
+  '    "command": "two.run",',
+  '    "when": "editorTextFocus"',
+  '  }',
+  ']',
+  ''
+].join('\n');
+
+suite('jsonc', () => {
+  test('comments and trailing commas are accepted', () => {
+    assert.deepStrictEqual(parseJsonc('[ /* a */ { "key": "x", }, // b\n]'), [{ key: 'x' }]);
+  });
+
+  test('an empty document is an empty array', () => {
+    assert.deepStrictEqual(new KeybindingsDocument('').entries, []);
+  });
+
+  test('a document that isn\'t an array is rejected', () => {
+    assert.throws(() => new KeybindingsDocument('{}'));
+  });
+
+  test('setProperty replaces a value and keeps the rest of the text', () => {
+    const document = new KeybindingsDocument(SAMPLE);
+    document.setProperty(0, 'key', 'ctrl+shift+a');
+    assert.strictEqual(document.getText(), SAMPLE.replace('"ctrl+a"', '"ctrl+shift+a"'));
+  });
+
+  test('setProperty adds a missing property on its own line', () => {
+    const document = new KeybindingsDocument(SAMPLE);
+    document.setProperty(0, 'when', 'terminalFocus');
+    assert.strictEqual(
+      document.getText(),
+      SAMPLE.replace('"command": "one.run"', '"command": "one.run",\n    "when": "terminalFocus"')
+    );
+  });
+
+  test('removeProperty drops the property and its comma', () => {
+    const document = new KeybindingsDocument(SAMPLE);
+    document.removeProperty(1, 'when');
+    assert.strictEqual(document.getText(), SAMPLE.replace(',\n    "when": "editorTextFocus"', ''));
+    assert.deepStrictEqual(document.entries[1], { key: 'ctrl+b', command: 'two.run' });
+  });
+
+  test('append matches the file\'s indentation', () => {
+    const document = new KeybindingsDocument(SAMPLE);
+    document.append({ key: 'ctrl+c', command: '-three.run' });
+    assert.strictEqual(document.getText(), SAMPLE.replace(
+      '  }\n]',
+      '  },\n  {\n    "key": "ctrl+c",\n    "command": "-three.run"\n  }\n]'
+    ));
+  });
+
+  test('remove takes the entry and its separating comma', () => {
+    const document = new KeybindingsDocument(SAMPLE);
+    document.remove(1);
+    assert.deepStrictEqual(document.entries, [{ key: 'ctrl+a', command: 'one.run' }]);
+    assert.ok(document.getText().startsWith('// Place your key bindings in this file\n['));
+
+    document.remove(0);
+    assert.deepStrictEqual(document.entries, []);
+  });
+
+  test('remove keeps the comments of the neighbouring entries', () => {
+    const text = [
+      '[',
+      '  { "key": "ctrl+a", "command": "one.run" }, // keeps ctrl+a free of the terminal',
+      '  // Second entry',
+      '  { "key": "ctrl+b", "command": "two.run" }, // goes with the second entry',
+      '  /* Third entry */',
+      '  { "key": "ctrl+c", "command": "three.run" }',
+      ']'
+    ].join('\n');
+
+    const last = new KeybindingsDocument(text);
+    last.remove(2);
+    assert.strictEqual(last.getText(), [
+      '[',
+      '  { "key": "ctrl+a", "command": "one.run" }, // keeps ctrl+a free of the terminal',
+      '  // Second entry',
+      '  { "key": "ctrl+b", "command": "two.run" } // goes with the second entry',
+      '  /* Third entry */',
+      ']'
+    ].join('\n'));
+
+    const middle = new KeybindingsDocument(text);
+    middle.remove(1);
+    assert.strictEqual(middle.getText(), [
+      '[',
+      '  { "key": "ctrl+a", "command": "one.run" }, // keeps ctrl+a free of the terminal',
+      '  // Second entry',
+      '  /* Third entry */',
+      '  { "key": "ctrl+c", "command": "three.run" }',
+      ']'
+    ].join('\n'));
+  });
+
+  test('remove handles entries on one line', () => {
+    const document = new KeybindingsDocument('[{ "key": "a", "command": "x" }, { "key": "b", "command": "y" }]');
+    document.remove(1);
+    assert.strictEqual(document.getText(), '[{ "key": "a", "command": "x" }]');
+    document.remove(0);
+    assert.strictEqual(document.getText(), '[]');
+  });
+
+  test('removeProperty keeps the comments of the neighbouring properties', () => {
+    const text = [
+      '[',
+      '  {',
+      '    "key": "ctrl+a", // moved off ctrl+shift+a',
+      '    "command": "one.run",',
+      '    // only while editing',
+      '    "when": "editorTextFocus"',
+      '  }',
+      ']'
+    ].join('\n');
+
+    const document = new KeybindingsDocument(text);
+    document.removeProperty(0, 'when');
+    assert.strictEqual(document.getText(), [
+      '[',
+      '  {',
+      '    "key": "ctrl+a", // moved off ctrl+shift+a',
+      '    "command": "one.run"',
+      '    // only while editing',
+      '  }',
+      ']'
+    ].join('\n'));
+
+    document.removeProperty(0, 'key');
+    assert.strictEqual(document.getText(), [
+      '[',
+      '  {',
+      '    "command": "one.run"',
+      '    // only while editing',
+      '  }',
+      ']'
+    ].join('\n'));
+    assert.deepStrictEqual(document.entries, [{ command: 'one.run' }]);
+  });
+
+  test('removeProperty handles entries on one line', () => {
+    const document = new KeybindingsDocument('[{ "key": "a", "command": "x", "when": "y" }]');
+    document.removeProperty(0, 'when');
+    assert.strictEqual(document.getText(), '[{ "key": "a", "command": "x" }]');
+    document.removeProperty(0, 'key');
+    assert.strictEqual(document.getText(), '[{ "command": "x" }]');
+    document.removeProperty(0, 'command');
+    assert.strictEqual(document.getText(), '[{}]');
+  });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { KeybindingsLinter } from '../keybindingsLinter';
+import { KeybindingInfo } from '../types';
+
+function binding(key: string, command: string, when?: string): KeybindingInfo {
+  return { key, command, when, extensionId: 'a.one', extensionName: 'One', source: 'extension', platform: 'linux' };
+}
+
+suite('KeybindingsLinter', () => {
+  const inventory = [binding('ctrl+k', 'one.run'), binding('ctrl+j', 'one.run'), binding('ctrl+u', 'one.up', 'terminalFocus')];
+  const linter = new KeybindingsLinter(inventory, new Set(['one.run', 'one.up', 'mine.run']), 'linux', 'us');
+
+  test('reports malformed keys and unknown commands at their value', () => {
+    const text = '[\n  { "key": "ctrl+foo", "command": "mine.run" },\n  { "key": "ctrl+m", "command": "-nobody.run" }\n]';
+    const problems = linter.lint(text);
+
+    assert.deepStrictEqual(problems.map(p => [p.kind, p.index, text.substr(p.offset, p.length)]), [
+      ['malformedKey', 0, '"ctrl+foo"'],
+      ['unknownCommand', 1, '"-nobody.run"']
+    ]);
+  });
+
+  test('reports keys bound to another command in the same context', () => {
+    const problems = linter.lint('[{ "key": "Ctrl+K", "command": "mine.run" }, { "key": "ctrl+u", "command": "mine.run", "when": "editorTextFocus" }]');
+
+    assert.deepStrictEqual(problems.map(p => [p.kind, p.index, p.bindings.map(b => b.command)]), [['conflict', 0, ['one.run']]]);
+  });
+
+  test('entries of the file collide with each other too', () => {
+    const problems = linter.lint('[{ "key": "ctrl+m", "command": "mine.run" }, { "key": "ctrl+m", "command": "one.up" }]');
+    assert.deepStrictEqual(problems.map(p => p.index), [0, 1]);
+  });
+
+  test('a -command entry with a key frees only that key', () => {
+    const problems = linter.lint('[{ "key": "ctrl+k", "command": "-one.run" }, { "key": "ctrl+k", "command": "mine.run" }, { "key": "ctrl+j", "command": "mine.run" }]');
+    assert.deepStrictEqual(problems.map(p => [p.index, p.bindings.map(b => b.key)]), [[2, ['ctrl+j']]]);
+  });
+
+  test('a -command entry without a key frees every key of the command', () => {
+    const problems = linter.lint('[{ "command": "-one.run" }, { "key": "ctrl+k", "command": "mine.run" }, { "key": "ctrl+j", "command": "mine.run" }]');
+    assert.deepStrictEqual(problems, []);
+  });
+
+  test('text that isn\'t valid JSONC gives no problems', () => {
+    assert.deepStrictEqual(linter.lint('[{ "key": '), []);
+  });
+
+  test('active bindings can leave out the entry being edited', () => {
+    const text = '[{ "key": "ctrl+k", "command": "-one.run" }, { "key": "ctrl+m", "command": "mine.run" }]';
+    const active = linter.getActiveBindings(text, 1).map(b => `${b.key} ${b.command}`);
+    assert.deepStrictEqual(active, ['ctrl+j one.run', 'ctrl+u one.up']);
+  });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { normalizeKeybinding } from '../keys';
+
+suite('keyboard layouts', () => {
+  test('scan codes, OEM codes and labels of the same key normalize alike on US', () => {
+    assert.strictEqual(normalizeKeybinding('ctrl+[Semicolon]', 'win', 'us'), 'ctrl+;');
+    assert.strictEqual(normalizeKeybinding('ctrl+oem_1', 'win', 'us'), 'ctrl+;');
+    assert.strictEqual(normalizeKeybinding('ctrl+[KeyA]', 'win', 'us'), 'ctrl+a');
+    assert.strictEqual(normalizeKeybinding('ctrl+[F5]', 'win', 'us'), 'ctrl+f5');
+  });
+
+  test('scan codes read as the label on the given layout', () => {
+    assert.strictEqual(normalizeKeybinding('ctrl+[KeyY]', 'linux', 'de'), 'ctrl+z');
+    assert.strictEqual(normalizeKeybinding('ctrl+[KeyZ]', 'linux', 'de'), 'ctrl+y');
+    assert.strictEqual(normalizeKeybinding('ctrl+[KeyQ]', 'linux', 'fr'), 'ctrl+a');
+    assert.strictEqual(normalizeKeybinding('ctrl+[KeyZ]', 'linux', 'dvorak'), 'ctrl+;');
+  });
+
+  test('keys without a label on the layout keep their scan code', () => {
+    assert.strictEqual(normalizeKeybinding('ctrl+[BracketLeft]', 'linux', 'de'), 'ctrl+[BracketLeft]');
+  });
+
+  test('labels refer to the key that produces them on the layout', () => {
+    assert.strictEqual(normalizeKeybinding('ctrl+[Slash]', 'linux', 'de'), 'ctrl+-');
+    assert.strictEqual(normalizeKeybinding('ctrl+-', 'linux', 'de'), 'ctrl+-');
+    assert.strictEqual(normalizeKeybinding('ctrl+[Comma]', 'linux', 'fr'), 'ctrl+;');
+    assert.strictEqual(normalizeKeybinding('ctrl+;', 'linux', 'fr'), 'ctrl+;');
+  });
+
+  test('labels the layout has no key for aren\'t moved to their US position', () => {
+    assert.strictEqual(normalizeKeybinding('ctrl+/', 'linux', 'de'), 'ctrl+/');
+    assert.notStrictEqual(normalizeKeybinding('ctrl+/', 'linux', 'de'), normalizeKeybinding('ctrl+-', 'linux', 'de'));
+    assert.strictEqual(normalizeKeybinding('ctrl+;', 'linux', 'de'), 'ctrl+;');
+    assert.notStrictEqual(normalizeKeybinding('ctrl+;', 'linux', 'de'), normalizeKeybinding('ctrl+[Semicolon]', 'linux', 'de'));
+
+    assert.strictEqual(normalizeKeybinding('ctrl+/', 'linux', 'fr'), 'ctrl+/');
+    assert.notStrictEqual(normalizeKeybinding('ctrl+/', 'linux', 'fr'), normalizeKeybinding('ctrl+[Slash]', 'linux', 'fr'));
+    assert.strictEqual(normalizeKeybinding('ctrl+-', 'linux', 'fr'), 'ctrl+-');
+    assert.notStrictEqual(normalizeKeybinding('ctrl+-', 'linux', 'fr'), normalizeKeybinding('ctrl+[Minus]', 'linux', 'fr'));
+  });
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { formatRecordedKeybinding, normalizeKeybinding, parseKeybinding } from '../keys';
+
+suite('keys', () => {
+  test('modifiers are ordered and aliases resolved', () => {
+    assert.strictEqual(normalizeKeybinding('shift+Ctrl+K', 'linux'), 'ctrl+shift+k');
+    assert.strictEqual(normalizeKeybinding('cmd+option+esc', 'mac'), 'alt+cmd+escape');
+    assert.strictEqual(normalizeKeybinding('win+a', 'win'), 'win+a');
+  });
+
+  test('chords are kept and whitespace collapsed', () => {
+    assert.strictEqual(normalizeKeybinding('  ctrl+k   ctrl+s ', 'linux'), 'ctrl+k ctrl+s');
+  });
+
+  test('invalid keybindings are rejected', () => {
+    assert.throws(() => parseKeybinding(''));
+    assert.throws(() => parseKeybinding('ctrl+'));
+    assert.throws(() => parseKeybinding('k+ctrl'));
+    assert.throws(() => parseKeybinding('ctrl+shift'));
+    assert.throws(() => parseKeybinding('ctrl+foo'));
+  });
+
+  test('strings that can\'t be parsed still compare consistently', () => {
+    assert.strictEqual(normalizeKeybinding('Ctrl+Foo  X', 'linux'), 'ctrl+foo x');
+  });
+
+  test('recorded chords are canonicalized for the layout', () => {
+    const chords = [
+      { ctrl: true, shift: false, alt: false, meta: false, keyCode: 'KeyK' },
+      { ctrl: true, shift: false, alt: false, meta: false, keyCode: 'KeyY' }
+    ];
+    assert.strictEqual(formatRecordedKeybinding(chords, 'linux', 'us'), 'ctrl+k ctrl+y');
+    assert.strictEqual(formatRecordedKeybinding(chords, 'linux', 'de'), 'ctrl+k ctrl+z');
+    assert.throws(() => formatRecordedKeybinding([], 'linux', 'us'));
+  });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { ManifestLinter } from '../manifestLinter';
+import { KeybindingInfo, KeybindingPlatform } from '../types';
+
+function binding(key: string, command: string, platform: KeybindingPlatform, extensionId = 'b.two'): KeybindingInfo {
+  return { key, command, extensionId, extensionName: 'Two', source: 'extension', platform };
+}
+
+function manifest(keybindings: unknown): string {
+  return JSON.stringify({ publisher: 'acme', name: 'tools', contributes: { keybindings } }, null, 2);
+}
+
+suite('ManifestLinter', () => {
+  const inventory = [
+    binding('ctrl+k', 'two.run', 'win'),
+    binding('ctrl+k', 'two.run', 'linux'),
+    binding('cmd+k', 'two.run', 'mac'),
+    binding('ctrl+j', 'tools.old', 'linux', 'acme.tools')
+  ];
+  const linter = new ManifestLinter(inventory, ['win', 'mac', 'linux'], 'us');
+
+  test('reports a collision once per declared value, naming the platforms it happens on', () => {
+    const text = manifest([{ key: 'ctrl+k', mac: 'cmd+shift+k', command: 'tools.run' }]);
+    const problems = linter.lint(text);
+
+    assert.strictEqual(problems.length, 1);
+    assert.strictEqual(problems[0].kind, 'conflict');
+    assert.strictEqual(text.substr(problems[0].offset, problems[0].length), '"ctrl+k"');
+    assert.strictEqual(problems[0].message, 'ctrl+k conflicts with Two: two.run (Windows, Linux)');
+  });
+
+  test('platform-specific keys are checked on their platform', () => {
+    const text = manifest({ key: 'ctrl+shift+k', mac: 'cmd+k', command: 'tools.run' });
+    const problems = linter.lint(text);
+
+    assert.deepStrictEqual(problems.map(p => [p.index, text.substr(p.offset, p.length)]), [[0, '"cmd+k"']]);
+  });
+
+  test('reports malformed keys once', () => {
+    const text = manifest([{ key: 'ctrl+foo', command: 'tools.run' }]);
+    assert.deepStrictEqual(linter.lint(text).map(p => p.kind), ['malformedKey']);
+  });
+
+  test('an installed copy of the same extension doesn\'t conflict with it', () => {
+    assert.deepStrictEqual(linter.lint(manifest([{ key: 'ctrl+j', command: 'tools.run' }])), []);
+  });
+
+  test('manifests without keybindings or that aren\'t valid JSON give no problems', () => {
+    assert.deepStrictEqual(linter.lint('{ "name": "tools" }'), []);
+    assert.deepStrictEqual(linter.lint('{ "contributes": '), []);
+  });
+});
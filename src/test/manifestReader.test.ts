@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { readExtensionsDirectory, readVsix } from '../manifestReader';
+
+/**
+ * Builds a ZIP archive in memory; CRCs are left at zero since the reader doesn't check them
+ */
+function createZip(files: { name: string; content: string; deflate?: boolean }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const raw = Buffer.from(file.content, 'utf8');
+    const data = file.deflate ? zlib.deflateRawSync(raw) : raw;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(file.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, data);
+    centrals.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+suite('manifestReader', () => {
+  let directory: string;
+
+  setup(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'kcs-test-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  function writeVsix(files: { name: string; content: string; deflate?: boolean }[]): string {
+    const file = path.join(directory, 'test.vsix');
+    fs.writeFileSync(file, createZip(files));
+    return file;
+  }
+
+  test('reads stored and deflated entries', () => {
+    const file = writeVsix([
+      { name: 'extension/readme.md', content: '# Test' },
+      {
+        name: 'extension/package.json',
+        content: JSON.stringify({
+          publisher: 'acme',
+          name: 'tools',
+          displayName: '%displayName%',
+          version: '1.2.3',
+          contributes: { keybindings: { key: 'ctrl+t', command: 'tools.run' } }
+        }),
+        deflate: true
+      },
+      { name: 'extension/package.nls.json', content: '{ "displayName": "Acme Tools" }' }
+    ]);
+
+    const manifest = readVsix(file);
+    assert.strictEqual(manifest.id, 'acme.tools');
+    assert.strictEqual(manifest.name, 'Acme Tools');
+    assert.strictEqual(manifest.version, '1.2.3');
+    assert.deepStrictEqual(manifest.keybindings, [{ key: 'ctrl+t', command: 'tools.run' }]);
+  });
+
+  test('rejects files that aren\'t ZIP archives', () => {
+    const file = path.join(directory, 'test.vsix');
+    fs.writeFileSync(file, 'not a zip archive at all');
+    assert.throws(() => readVsix(file), /not a ZIP archive/);
+  });
+
+  test('rejects packages without a manifest', () => {
+    const file = writeVsix([{ name: 'extension/readme.md', content: '# Test' }]);
+    assert.throws(() => readVsix(file));
+  });
+
+  test('keeps the newest version of each extension in a directory', () => {
+    for (const version of ['1.0.0', '1.10.0', '1.9.0']) {
+      const folder = path.join(directory, `acme.tools-${version}`);
+      fs.mkdirSync(folder);
+      fs.writeFileSync(path.join(folder, 'package.json'), JSON.stringify({ publisher: 'acme', name: 'tools', version }));
+    }
+
+    const manifests = readExtensionsDirectory(directory);
+    assert.deepStrictEqual(manifests.map(m => [m.id, m.version]), [['acme.tools', '1.10.0']]);
+  });
+
+  test('skips and reports folders that can\'t be read', () => {
+    const broken = path.join(directory, 'acme.broken-1.0.0');
+    const working = path.join(directory, 'acme.tools-1.0.0');
+    fs.mkdirSync(broken);
+    fs.mkdirSync(working);
+    fs.writeFileSync(path.join(broken, 'package.json'), '{ "publisher": ');
+    fs.writeFileSync(path.join(working, 'package.json'), JSON.stringify({ publisher: 'acme', name: 'tools' }));
+
+    const messages: string[] = [];
+    const manifests = readExtensionsDirectory(directory, message => messages.push(message));
+    assert.deepStrictEqual(manifests.map(m => m.id), ['acme.tools']);
+    assert.strictEqual(messages.length, 1);
+    assert.ok(messages[0].includes(broken));
+  });
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { mergePolicies, parsePolicy, PolicyChecker } from '../policy';
+import { KeybindingInfo, KeybindingPolicy } from '../types';
+
+function binding(extensionId: string, key: string, command: string, when?: string): KeybindingInfo {
+  return { key, command, when, extensionId, extensionName: extensionId, source: 'extension', platform: 'linux' };
+}
+
+function check(policy: Partial<KeybindingPolicy>, bindings: KeybindingInfo[]) {
+  return new PolicyChecker({ required: [], forbidden: [], exceptions: [], ...policy }, 'linux', 'us').check(bindings);
+}
+
+suite('policy', () => {
+  test('parses a policy with comments and leaves out missing sections', () => {
+    const policy = parsePolicy('{ // team rules\n "required": [{ "key": "ctrl+s", "command": "save" }] }');
+    assert.deepStrictEqual(policy, { required: [{ key: 'ctrl+s', command: 'save' }], forbidden: [], exceptions: [] });
+  });
+
+  test('rejects malformed rules', () => {
+    assert.throws(() => parsePolicy('[]'));
+    assert.throws(() => parsePolicy('{ "required": {} }'));
+    assert.throws(() => parsePolicy('{ "required": [{ "key": "ctrl+foo", "command": "save" }] }'), /required\[0\]/);
+    assert.throws(() => parsePolicy('{ "forbidden": [{ "key": "ctrl+s", "extensions": "a.one" }] }'));
+    assert.throws(() => parsePolicy('{ "exceptions": [{}] }'));
+  });
+
+  test('merges the rules of several folders', () => {
+    const merged = mergePolicies([
+      { required: [{ key: 'ctrl+s', command: 'save' }], forbidden: [], exceptions: [] },
+      { required: [], forbidden: [{ key: 'ctrl+q', extensions: ['*'] }], exceptions: [] }
+    ]);
+    assert.strictEqual(merged.required.length, 1);
+    assert.strictEqual(merged.forbidden.length, 1);
+  });
+
+  test('a required key that doesn\'t run its command is missing', () => {
+    const violations = check({ required: [{ key: 'Ctrl+S', command: 'save' }] }, [binding('a.one', 'ctrl+s', 'other')]);
+    assert.deepStrictEqual(violations.map(v => [v.kind, v.key]), [['missing', 'ctrl+s'], ['taken', 'ctrl+s']]);
+  });
+
+  test('a required key is only taken by bindings that can be active with it', () => {
+    const violations = check(
+      { required: [{ key: 'ctrl+s', command: 'save', when: 'editorTextFocus' }] },
+      [binding('vscode.core', 'ctrl+s', 'save'), binding('a.one', 'ctrl+s', 'one.save', 'terminalFocus')]
+    );
+    assert.deepStrictEqual(violations, []);
+  });
+
+  test('forbidden keys apply to the listed extensions, or all of them with *', () => {
+    const bindings = [binding('a.one', 'ctrl+q', 'one.quit'), binding('B.Two', 'ctrl+q', 'two.quit'), { ...binding('user', 'ctrl+q', 'mine'), source: 'user' as const }];
+
+    const listed = check({ forbidden: [{ key: 'ctrl+q', extensions: ['b.two'] }] }, bindings);
+    assert.deepStrictEqual(listed.map(v => v.bindings.map(b => b.command)), [['two.quit']]);
+
+    const all = check({ forbidden: [{ key: 'ctrl+q', extensions: ['*'] }] }, bindings);
+    assert.deepStrictEqual(all.map(v => v.bindings.map(b => b.command)), [['one.quit', 'two.quit']]);
+  });
+
+  test('exceptions and other platforms are left alone', () => {
+    const violations = check(
+      {
+        forbidden: [{ key: 'ctrl+q', extensions: ['*'] }],
+        exceptions: [{ extension: 'a.one', key: 'ctrl+q' }]
+      },
+      [binding('a.one', 'ctrl+q', 'one.quit'), { ...binding('b.two', 'ctrl+q', 'two.quit'), platform: 'win' }]
+    );
+    assert.deepStrictEqual(violations, []);
+  });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { getUserDisabledCommands } from '../conflictDetector';
+import { preflightExtension } from '../preflight';
+import { ExtensionManifest, KeybindingInfo } from '../types';
+
+function binding(extensionId: string, key: string, command: string): KeybindingInfo {
+  return { key, command, extensionId, extensionName: extensionId, source: 'extension', platform: 'linux' };
+}
+
+const EXTENSION: ExtensionManifest = {
+  id: 'Acme.Tools',
+  name: 'Acme Tools',
+  version: '2.0.0',
+  location: '/tmp/acme.tools-2.0.0',
+  keybindings: [
+    { key: 'ctrl+k', command: 'tools.run' },
+    { key: 'ctrl+j', command: 'tools.join' },
+    { key: 'ctrl+u', command: 'tools.up' }
+  ]
+};
+
+suite('preflightExtension', () => {
+  test('reports only the conflicts the extension would bring in', () => {
+    const result = preflightExtension(EXTENSION, [
+      binding('b.two', 'ctrl+k', 'two.run'),
+      binding('b.two', 'ctrl+m', 'two.m'),
+      binding('c.three', 'ctrl+m', 'three.m')
+    ], ['linux'], 'us');
+
+    assert.strictEqual(result.bindings.length, 3);
+    assert.deepStrictEqual(result.conflicts.map(c => c.key), ['ctrl+k']);
+  });
+
+  test('an installed version of the extension is replaced, not conflicted with', () => {
+    const installed = binding('acme.tools', 'ctrl+j', 'tools.join');
+    const result = preflightExtension(EXTENSION, [installed, binding('b.two', 'ctrl+u', 'two.up')], ['linux'], 'us');
+
+    assert.deepStrictEqual(result.replaced, [installed]);
+    assert.deepStrictEqual(result.conflicts.map(c => c.key), ['ctrl+u']);
+  });
+
+  test('keys removed in keybindings.json don\'t conflict', () => {
+    const result = preflightExtension(
+      EXTENSION,
+      [binding('b.two', 'ctrl+k', 'two.run'), binding('b.two', 'ctrl+u', 'two.run')],
+      ['linux'],
+      'us',
+      { userDisabledCommands: getUserDisabledCommands([{ key: 'ctrl+k', command: '-two.run' }], 'linux', 'us') }
+    );
+
+    assert.deepStrictEqual(result.conflicts.map(c => c.key), ['ctrl+u']);
+  });
+});
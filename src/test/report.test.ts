@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { buildReport, formatPreflightReport, formatReport } from '../report';
+import { ConflictGroup, KeybindingInfo, ReportMetadata } from '../types';
+
+const METADATA: ReportMetadata = {
+  editor: { name: 'Visual Studio Code', version: '1.90.0' },
+  platform: 'linux',
+  scanTarget: 'current',
+  scannedPlatforms: ['linux'],
+  keyboardLayout: 'us',
+  extensions: []
+};
+
+function binding(key: string, command: string, extensionName = 'Built-in', when?: string): KeybindingInfo {
+  return { key, command, when, extensionId: extensionName.toLowerCase(), extensionName, source: 'extension', platform: 'linux' };
+}
+
+function conflict(key: string, bindings: KeybindingInfo[], overrides: Partial<ConflictGroup> = {}): ConflictGroup {
+  return { key, bindings, severity: 'definite', kind: 'exact', platform: 'linux', ...overrides };
+}
+
+suite('report', () => {
+  const terminal = binding('ctrl+`', 'workbench.action.terminal.toggleTerminal');
+  const other = binding('ctrl+`', 'acme.toggle', 'Acme');
+
+  test('reports exact conflicts before prefix shadowing and leaves out non-overlapping ones', () => {
+    const report = buildReport([
+      conflict('ctrl+k', [binding('ctrl+k', 'a'), binding('ctrl+k ctrl+s', 'b')], { kind: 'prefix' }),
+      conflict('ctrl+b', [binding('ctrl+b', 'c'), binding('ctrl+b', 'd')], { severity: 'none' }),
+      conflict('ctrl+`', [terminal, other], { severity: 'possible' })
+    ], [terminal, other], METADATA);
+
+    assert.deepStrictEqual(report.conflicts.map(c => [c.id, c.key]), [[1, 'ctrl+`'], [2, 'ctrl+k']]);
+    assert.deepStrictEqual(report.summary, { conflicts: 2, definite: 1, possible: 1, prefixShadowing: 1, keybindings: 2 });
+  });
+
+  test('a key with a backtick stays a closed code span in Markdown', () => {
+    const markdown = formatReport(buildReport([conflict('ctrl+`', [terminal, other])], [terminal, other], METADATA), 'markdown');
+    const row = markdown.split('\n').find(line => line.startsWith('| 1 |'));
+
+    assert.strictEqual(row, '| 1 | Linux | `` ctrl+` `` | exact | definite | workbench.action.terminal.toggleTerminal (Built-in)<br>acme.toggle (Acme) |');
+    assert.ok(markdown.includes('| Linux | `` ctrl+` `` | acme.toggle |  | Acme |'));
+  });
+
+  test('code spans are fenced longer than the backticks they contain', () => {
+    const when = binding('ctrl+a', 'acme.run', 'Acme', '`resourceFilename =~ /``$/');
+    const markdown = formatReport(buildReport([], [when], METADATA), 'markdown');
+    assert.ok(markdown.includes('| `ctrl+a` | acme.run | ``` `resourceFilename =~ /``$/ ``` | Acme |'));
+  });
+
+  test('the preflight preview fences backtick keys too', () => {
+    const markdown = formatPreflightReport({
+      extension: { id: 'acme', name: 'Acme', version: '1.0.0', location: '/tmp/acme', keybindings: [] },
+      platforms: ['linux'],
+      bindings: [other],
+      replaced: [],
+      conflicts: [conflict('ctrl+`', [other, terminal])]
+    });
+    assert.ok(markdown.includes('| Linux | `` ctrl+` `` | exact | definite | acme.toggle (Acme) |'));
+  });
+
+  test('CSV quotes values with commas and lists the conflicts of each binding', () => {
+    const quoted = binding('ctrl+,', 'acme.settings', 'Acme, Inc.');
+    const csv = formatReport(buildReport([conflict('ctrl+`', [terminal, other])], [terminal, other, quoted], METADATA), 'csv');
+    const lines = csv.trimEnd().split('\r\n');
+
+    assert.strictEqual(lines[0], 'platform,key,command,when,source,extensionId,extensionName,severity,conflicts');
+    assert.ok(lines.includes('linux,"ctrl+,",acme.settings,,extension,"acme, inc.","Acme, Inc.",,'));
+    assert.ok(lines.includes('linux,ctrl+`,acme.toggle,,extension,acme,Acme,definite,1'));
+  });
+
+  test('HTML escapes keybinding text', () => {
+    const html = formatReport(buildReport([], [binding('ctrl+a', 'acme.run', '<Acme>')], METADATA), 'html');
+    assert.ok(html.includes('&lt;Acme&gt;'));
+    assert.ok(!html.includes('<Acme>'));
+  });
+});
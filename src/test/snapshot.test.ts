@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { canCompareSnapshots, createSnapshot, diffSnapshots } from '../snapshot';
+import { KeybindingInfo } from '../types';
+
+function binding(extensionId: string, key: string, command: string, when?: string): KeybindingInfo {
+  return { key, command, when, extensionId, extensionName: extensionId, source: 'extension', platform: 'linux' };
+}
+
+suite('snapshot', () => {
+  test('user bindings and other platforms are left out', () => {
+    const snapshot = createSnapshot([
+      binding('a.one', 'ctrl+a', 'one.run'),
+      { ...binding('user', 'ctrl+b', 'mine'), source: 'user' },
+      { ...binding('a.one', 'cmd+a', 'one.run'), platform: 'mac' }
+    ], [{ id: 'a.one', version: '1.0.0' }], 'linux', 'us');
+
+    assert.deepStrictEqual(Object.keys(snapshot.extensions), ['a.one']);
+    assert.strictEqual(snapshot.extensions['a.one'].version, '1.0.0');
+    assert.strictEqual(snapshot.extensions['a.one'].bindings.length, 1);
+  });
+
+  test('snapshots of another layout can\'t be compared', () => {
+    const us = createSnapshot([], [], 'linux', 'us');
+    assert.ok(canCompareSnapshots(us, createSnapshot([], [], 'linux', 'us')));
+    assert.ok(!canCompareSnapshots(us, createSnapshot([], [], 'linux', 'de')));
+    assert.ok(!canCompareSnapshots(us, createSnapshot([], [], 'mac', 'us')));
+  });
+
+  test('added, removed and rekeyed bindings are told apart', () => {
+    const previous = createSnapshot([
+      binding('a.one', 'ctrl+a', 'one.run'),
+      binding('a.one', 'ctrl+b', 'one.stop'),
+      binding('a.one', 'ctrl+c', 'one.copy', 'editorTextFocus')
+    ], [{ id: 'a.one', version: '1.0.0' }], 'linux', 'us');
+    const current = createSnapshot([
+      binding('a.one', 'ctrl+a', 'one.run'),
+      binding('a.one', 'ctrl+shift+c', 'one.copy', 'editorTextFocus'),
+      binding('a.one', 'ctrl+d', 'one.debug')
+    ], [{ id: 'a.one', version: '1.1.0' }], 'linux', 'us');
+
+    const [changes, ...rest] = diffSnapshots(previous, current);
+    assert.strictEqual(rest.length, 0);
+    assert.strictEqual(changes.kind, 'updated');
+    assert.strictEqual(changes.previousVersion, '1.0.0');
+    assert.deepStrictEqual(changes.added.map(b => b.key), ['ctrl+d']);
+    assert.deepStrictEqual(changes.removed.map(b => b.key), ['ctrl+b']);
+    assert.deepStrictEqual(changes.rekeyed.map(r => [r.from.key, r.to.key]), [['ctrl+c', 'ctrl+shift+c']]);
+  });
+
+  test('installed and uninstalled extensions are reported', () => {
+    const previous = createSnapshot([binding('a.old', 'ctrl+a', 'old.run')], [{ id: 'a.old', version: '1.0.0' }], 'linux', 'us');
+    const current = createSnapshot([binding('a.new', 'ctrl+a', 'new.run')], [{ id: 'a.new', version: '2.0.0' }], 'linux', 'us');
+
+    const changes = diffSnapshots(previous, current);
+    assert.deepStrictEqual(changes.map(c => [c.extensionId, c.kind]), [['a.new', 'added'], ['a.old', 'removed']]);
+  });
+
+  test('unchanged extensions aren\'t reported', () => {
+    const snapshot = createSnapshot([binding('a.one', 'ctrl+a', 'one.run')], [{ id: 'a.one', version: '1.0.0' }], 'linux', 'us');
+    assert.deepStrictEqual(diffSnapshots(snapshot, snapshot), []);
+  });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { KeySuggester } from '../suggestions';
+import { KeybindingInfo } from '../types';
+
+function binding(key: string, command: string, when?: string): KeybindingInfo {
+  return { key, command, when, extensionId: 'a.one', extensionName: 'One', source: 'extension', platform: 'linux' };
+}
+
+suite('KeySuggester', () => {
+  const moved = binding('ctrl+k', 'one.run');
+
+  test('suggests the key with extra modifiers first, skipping taken keys', () => {
+    const suggester = new KeySuggester([moved, binding('ctrl+shift+k', 'two.run')], 'linux');
+    assert.deepStrictEqual(suggester.suggest(moved, 2), ['ctrl+alt+k', 'ctrl+shift+alt+k']);
+  });
+
+  test('keys taken under a when clause that never overlaps count as free', () => {
+    const suggester = new KeySuggester([moved, binding('ctrl+shift+k', 'two.run', 'terminalFocus')], 'linux');
+    assert.deepStrictEqual(suggester.suggest({ ...moved, when: 'editorTextFocus' }, 1), ['ctrl+shift+k']);
+  });
+
+  test('reserved keys and keys that shadow chords are skipped', () => {
+    const suggester = new KeySuggester([moved, binding('ctrl+shift+k ctrl+s', 'two.save')], 'linux');
+    assert.deepStrictEqual(suggester.suggest(moved, 1, new Set(['ctrl+alt+k'])), ['ctrl+shift+alt+k']);
+  });
+
+  test('chords under a prefix in use are suggested once the modifiers run out', () => {
+    const taken = ['ctrl+shift+k', 'ctrl+alt+k', 'ctrl+shift+alt+k'].map(key => binding(key, `other.${key}`));
+    const suggester = new KeySuggester([moved, ...taken, binding('ctrl+j ctrl+s', 'two.save')], 'linux');
+    assert.deepStrictEqual(suggester.suggest(moved, 2), ['ctrl+j ctrl+k', 'ctrl+j k']);
+  });
+
+  test('finds the binding a key would collide with', () => {
+    const other = binding('ctrl+j', 'two.run', 'editorTextFocus');
+    const suggester = new KeySuggester([moved, other, { ...binding('ctrl+j', 'three.run'), platform: 'mac' }], 'linux');
+
+    assert.strictEqual(suggester.findCollision('ctrl+j', moved), other);
+    assert.strictEqual(suggester.findCollision('ctrl+j', { ...moved, when: 'terminalFocus' }), undefined);
+    assert.strictEqual(suggester.findCollision('ctrl+k', moved), undefined);
+  });
+});
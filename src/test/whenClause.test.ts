@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { WhenClauseAnalyzer } from '../whenClause';
+
+suite('WhenClauseAnalyzer', () => {
+  const analyzer = new WhenClauseAnalyzer();
+
+  test('missing clauses overlap with everything', () => {
+    assert.ok(analyzer.canOverlap(undefined, 'editorTextFocus'));
+    assert.ok(analyzer.canOverlap('', ''));
+  });
+
+  test('a key and its negation don\'t overlap', () => {
+    assert.ok(!analyzer.canOverlap('editorTextFocus', '!editorTextFocus'));
+    assert.ok(!analyzer.canOverlap('editorTextFocus && vim.active', '!editorTextFocus'));
+  });
+
+  test('different values of the same key don\'t overlap', () => {
+    assert.ok(!analyzer.canOverlap('editorLangId == python', 'editorLangId == typescript'));
+    assert.ok(analyzer.canOverlap('editorLangId == python', 'editorLangId != typescript'));
+    assert.ok(!analyzer.canOverlap('editorLangId == python', 'editorLangId != python'));
+  });
+
+  test('exclusive focus keys don\'t overlap', () => {
+    assert.ok(!analyzer.canOverlap('editorTextFocus', 'terminalFocus'));
+    assert.ok(analyzer.canOverlap('editorTextFocus', 'editorHasSelection'));
+  });
+
+  test('any overlapping term of a disjunction is enough', () => {
+    assert.ok(analyzer.canOverlap('terminalFocus || editorTextFocus', 'editorTextFocus && !editorReadonly'));
+    assert.ok(!analyzer.canOverlap('terminalFocus || listFocus', 'editorTextFocus'));
+  });
+
+  test('negations are pushed into parentheses', () => {
+    assert.ok(!analyzer.canOverlap('!(editorTextFocus || terminalFocus)', 'terminalFocus'));
+  });
+
+  test('unparseable clauses are treated as overlapping', () => {
+    assert.ok(analyzer.canOverlap('editorTextFocus &&', '!editorTextFocus'));
+  });
+
+  test('equivalent clauses ignore order and whitespace', () => {
+    assert.ok(analyzer.isEquivalent('a && b', 'b&&a'));
+    assert.ok(analyzer.isEquivalent('a && (b || c)', 'a && b || a && c'));
+    assert.ok(analyzer.isEquivalent(undefined, ''));
+    assert.ok(!analyzer.isEquivalent('a', 'a && b'));
+  });
+});
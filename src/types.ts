@@ -2,17 +2,92 @@
  * Keybinding conflict scanner types
  */
 
+/**
+ * Where a keybinding comes from
+ * - extension: contributed by an installed extension's package.json
+ * - builtin: one of VS Code's own default keybindings
+ * - user: added by the user in keybindings.json
+ */
+export type KeybindingSource = 'extension' | 'builtin' | 'user';
+
+/**
+ * Operating system a keybinding applies to, named after the package.json keys
+ */
+export type KeybindingPlatform = 'win' | 'mac' | 'linux';
+
+/**
+ * Which platforms a scan should analyze
+ */
+export type ScanTarget = KeybindingPlatform | 'current' | 'all';
+
 export interface KeybindingInfo {
   key: string;
   command: string;
   when?: string;
   extensionId: string;
   extensionName: string;
+  source: KeybindingSource;
+  platform: KeybindingPlatform;
 }
 
+/**
+ * Keyboard layouts with bundled key tables
+ */
+export type KeyboardLayoutId = 'us' | 'uk' | 'de' | 'ch' | 'fr' | 'be' | 'es' | 'it' | 'dvorak' | 'colemak';
+
+/**
+ * One step of a keybinding: a set of modifiers plus a key code
+ * Key codes use VS Code's names (e.g. 'k', 'f12', 'pagedown', 'numpad1', '[KeyA]')
+ */
+export interface KeyChord {
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+  meta: boolean;
+  keyCode: string;
+}
+
+/**
+ * A parsed keybinding; more than one chord means a chord sequence like "ctrl+k ctrl+s"
+ */
+export interface ParsedKeybinding {
+  chords: KeyChord[];
+}
+
+/**
+ * A keybinding as declared in package.json 'contributes.keybindings'
+ */
+export interface KeybindingContribution {
+  key?: string | string[];
+  mac?: string | string[];
+  linux?: string | string[];
+  win?: string | string[];
+  command: string;
+  when?: string;
+}
+
+/**
+ * How likely a group of bindings is to actually clash at runtime
+ * - definite: the bindings are active in the same contexts
+ * - possible: their 'when' clauses overlap in some contexts
+ * - none: their 'when' clauses are mutually exclusive
+ */
+export type ConflictSeverity = 'definite' | 'possible' | 'none';
+
+/**
+ * What kind of clash a conflict group describes
+ * - exact: several bindings use the same key
+ * - prefix: a single key equals the first chord of another extension's chord,
+ *   so one of them can no longer be reached ("prefix shadowing")
+ */
+export type ConflictKind = 'exact' | 'prefix';
+
 export interface ConflictGroup {
   key: string;
   bindings: KeybindingInfo[];
+  severity: ConflictSeverity;
+  kind: ConflictKind;
+  platform: KeybindingPlatform;
 }
 
 export interface QuickPickConflictItem {
@@ -20,6 +95,7 @@ export interface QuickPickConflictItem {
   description: string;
   detail: string;
   binding: KeybindingInfo;
+  conflict: ConflictGroup;
 }
 
 export type ResolutionAction =
@@ -29,7 +105,426 @@ export type ResolutionAction =
     }
   | {
       type: 'reassign';
-      bindings: KeybindingInfo[];
-      newKey: string;
+      reassignments: KeyReassignment[];
       allBindings: KeybindingInfo[];
+    }
+  | {
+      type: 'ignore';
+      conflicts: ConflictGroup[];
+    }
+  | {
+      type: 'ignoreExtensions';
+      extensionIds: string[];
+    };
+
+/**
+ * Ranks an extension, or one of its commands, in the 'rules' setting
+ */
+export interface PriorityRule {
+  extension: string;
+  command?: string;
+}
+
+/**
+ * Key that must always stay with a command
+ */
+export interface PinnedKeyRule {
+  key: string;
+  command: string;
+}
+
+/**
+ * The 'rules' setting used by auto-resolve
+ */
+export interface ResolutionRules {
+  priorities: PriorityRule[];
+  pinnedKeys: PinnedKeyRule[];
+}
+
+/**
+ * How auto-resolve settles one conflict
+ */
+export interface AutoResolutionDecision {
+  conflict: ConflictGroup;
+  winners: KeybindingInfo[];
+  losers: KeybindingInfo[];
+  reason: string;
+}
+
+/**
+ * Everything auto-resolve will change, and the conflicts it leaves alone
+ */
+export interface AutoResolutionPlan {
+  actions: ResolutionAction[];
+  decisions: AutoResolutionDecision[];
+  skipped: { conflict: ConflictGroup; reason: string }[];
+}
+
+/**
+ * A binding and the key it should move to
+ */
+export interface KeyReassignment {
+  binding: KeybindingInfo;
+  newKey: string;
+}
+
+/**
+ * Entry of the 'ignoredConflicts' setting
+ * Either one conflict (a key and the commands bound to it) or every conflict of an extension
+ */
+export type IgnoredConflict =
+  | {
+      key: string;
+      commands: string[];
+    }
+  | {
+      extensionId: string;
+    };
+
+/**
+ * A key that must run a command, from the team keybinding policy
+ */
+export interface RequiredKeybinding {
+  key: string;
+  command: string;
+  when?: string;
+}
+
+/**
+ * A key the listed extensions must not bind; '*' stands for every extension
+ */
+export interface ForbiddenKeybinding {
+  key: string;
+  extensions: string[];
+}
+
+/**
+ * Bindings the policy allows anyway; each field that is set must match
+ */
+export interface PolicyException {
+  key?: string;
+  extension?: string;
+  command?: string;
+}
+
+/**
+ * Contents of .vscode/keybinding-policy.json
+ */
+export interface KeybindingPolicy {
+  required: RequiredKeybinding[];
+  forbidden: ForbiddenKeybinding[];
+  exceptions: PolicyException[];
+}
+
+/**
+ * How a setup breaks the team keybinding policy
+ * - missing: a required key doesn't run its command
+ * - taken: another command is bound to a required key in the same context
+ * - forbidden: an extension binds a key it must not
+ */
+export type PolicyViolationKind = 'missing' | 'taken' | 'forbidden';
+
+/**
+ * A policy rule that isn't met, with the bindings that break it (none for 'missing')
+ * 'command' and 'when' are the required binding's, for 'missing' and 'taken'
+ */
+export interface PolicyViolation {
+  kind: PolicyViolationKind;
+  key: string;
+  command?: string;
+  when?: string;
+  bindings: KeybindingInfo[];
+}
+
+/**
+ * An entry in user's keybindings.json
+ */
+export interface KeybindingEntry {
+  key: string;
+  command: string;
+  when?: string;
+}
+
+/**
+ * What is wrong with an entry of keybindings.json or of an extension manifest's keybindings
+ * - conflict: its key is also bound to another command in the same context
+ * - unknownCommand: no installed extension or the editor provides its command
+ * - malformedKey: its key can't be parsed
+ */
+export type KeybindingProblemKind = 'conflict' | 'unknownCommand' | 'malformedKey';
+
+/**
+ * A problem found in keybindings.json or a manifest's 'contributes.keybindings' while it is edited
+ * 'index' is the entry's position in its array; 'offset' and 'length' locate the offending value in the text;
+ * 'bindings' are the ones the entry collides with
+ */
+export interface KeybindingProblem {
+  kind: KeybindingProblemKind;
+  index: number;
+  offset: number;
+  length: number;
+  message: string;
+  bindings: KeybindingInfo[];
+}
+
+/**
+ * A single edit made to keybindings.json while applying a resolution
+ */
+export type KeybindingChange =
+  | {
+      type: 'added';
+      entry: KeybindingEntry;
+    }
+  | {
+      type: 'modified';
+      before: KeybindingEntry;
+      after: KeybindingEntry;
+    };
+
+/**
+ * A journal entry for an applied resolution
+ */
+export interface ResolutionRecord {
+  id: string;
+  timestamp: string;
+  actionType: 'disable' | 'reassign' | 'policy';
+  summary: string;
+  keybindingsPath: string;
+  changes: KeybindingChange[];
+  backupFile: string;
+  reverted: boolean;
+}
+
+/**
+ * Results of the most recent scan, kept for the conflicts view
+ */
+export interface ScanResults {
+  conflicts: ConflictGroup[];
+  violations?: PolicyViolation[];
+  target: ScanTarget;
+  timestamp: string;
+}
+
+/**
+ * The bindings one extension, or VS Code itself, contributed at a given version
+ */
+export interface ExtensionBindingSnapshot {
+  name: string;
+  version: string;
+  bindings: KeybindingInfo[];
+}
+
+/**
+ * The keybinding inventory of the current platform at one point in time, keyed by extension ID
+ * Kept in globalState so changes made while the editor was closed are noticed on the next start
+ */
+export interface KeybindingSnapshot {
+  timestamp: string;
+  platform: KeybindingPlatform;
+  keyboardLayout: KeyboardLayoutId;
+  extensions: Record<string, ExtensionBindingSnapshot>;
+}
+
+/**
+ * How an extension differs from the previous snapshot
+ * - added: installed or enabled since
+ * - removed: uninstalled or disabled since
+ * - updated: its version changed
+ * - changed: same version, different bindings (e.g. another editor version's defaults)
+ */
+export type ExtensionChangeKind = 'added' | 'removed' | 'updated' | 'changed';
+
+/**
+ * The bindings an extension added, removed or moved to another key since the previous snapshot
+ */
+export interface ExtensionBindingChanges {
+  extensionId: string;
+  extensionName: string;
+  kind: ExtensionChangeKind;
+  previousVersion?: string;
+  version?: string;
+  added: KeybindingInfo[];
+  removed: KeybindingInfo[];
+  rekeyed: { from: KeybindingInfo; to: KeybindingInfo }[];
+}
+
+/**
+ * What changed between two snapshots, and the conflicts the change introduced
+ */
+export interface KeybindingChangeReport {
+  timestamp: string;
+  previousTimestamp: string;
+  changes: ExtensionBindingChanges[];
+  newConflicts: ConflictGroup[];
+}
+
+/**
+ * When conflicts found by automatic checks are announced
+ * - never: only the status bar and the Conflicts view show them
+ * - newConflicts: once for each conflict that hasn't been announced before
+ * - always: after every change, with all current conflicts
+ */
+export type NotificationMode = 'never' | 'newConflicts' | 'always';
+
+/**
+ * How the conflicts view groups its items
+ */
+export type ConflictTreeGrouping = 'key' | 'extension';
+
+/**
+ * Items shown in the conflicts view
+ */
+export type ConflictTreeNode =
+  | {
+      type: 'conflict';
+      group: ConflictGroup;
+    }
+  | {
+      type: 'extension';
+      extensionId: string;
+      extensionName: string;
+      entries: { binding: KeybindingInfo; group: ConflictGroup }[];
+    }
+  | {
+      type: 'binding';
+      binding: KeybindingInfo;
+      group: ConflictGroup;
+    }
+  | {
+      type: 'policy';
+      violations: PolicyViolation[];
+    }
+  | {
+      type: 'violation';
+      violation: PolicyViolation;
+    };
+
+/**
+ * File formats a conflict report can be exported to
+ */
+export type ReportFormat = 'json' | 'markdown' | 'csv' | 'html';
+
+/**
+ * Extension that contributed keybindings to a report
+ */
+export interface ReportExtensionInfo {
+  id: string;
+  name: string;
+  version: string;
+}
+
+/**
+ * Where and how a report's scan was run
+ */
+export interface ReportMetadata {
+  editor: { name: string; version: string };
+  platform: KeybindingPlatform;
+  scanTarget: ScanTarget;
+  scannedPlatforms: KeybindingPlatform[];
+  keyboardLayout: KeyboardLayoutId;
+  extensions: ReportExtensionInfo[];
+}
+
+/**
+ * Conflict group as written to a report, with a number other parts of the report refer to
+ */
+export interface ReportConflict extends ConflictGroup {
+  id: number;
+}
+
+/**
+ * Exported conflict report (JSON schema version 1)
+ */
+export interface ConflictReport {
+  schemaVersion: number;
+  generatedAt: string;
+  metadata: ReportMetadata;
+  summary: {
+    conflicts: number;
+    definite: number;
+    possible: number;
+    prefixShadowing: number;
+    keybindings: number;
+  };
+  conflicts: ReportConflict[];
+  keybindings: KeybindingInfo[];
+}
+
+/**
+ * Occupancy of a key in the keyboard heatmap
+ * 'prefix' keys start chords, 'conflict' keys have clashing owners from different extensions
+ */
+export type HeatmapKeyState = 'free' | 'occupied' | 'prefix' | 'conflict';
+
+/**
+ * A key of the keyboard heatmap for one modifier combination
+ */
+export interface HeatmapKey {
+  code: string;
+  label: string;
+  key: string;
+  state: HeatmapKeyState;
+  bindings: KeybindingInfo[];
+  chords: KeybindingInfo[];
+}
+
+/**
+ * An extension read from disk rather than from the running editor
+ * 'location' is the extension folder or VSIX file it was read from
+ */
+export interface ExtensionManifest {
+  id: string;
+  name: string;
+  version: string;
+  location: string;
+  keybindings: KeybindingContribution[];
+}
+
+/**
+ * The keybinding conflicts an extension would bring in, worked out from its manifest before it is enabled
+ * 'replaced' are the bindings of an installed version that this one would take the place of
+ */
+export interface PreflightResult {
+  extension: ExtensionManifest;
+  platforms: KeybindingPlatform[];
+  bindings: KeybindingInfo[];
+  replaced: KeybindingInfo[];
+  conflicts: ConflictGroup[];
+}
+
+/**
+ * What the user chose to do from the resolution history
+ */
+export type HistoryAction =
+  | {
+      type: 'revert' | 'restoreBackup';
+      record: ResolutionRecord;
+    }
+  | {
+      type: 'revertAll';
+    };
+
+/**
+ * What the user chose to do from the keybinding changes view
+ */
+export type KeybindingChangeAction =
+  | {
+      type: 'resolve';
+    }
+  | {
+      type: 'open';
+      binding: KeybindingInfo;
+    };
+
+/**
+ * What the user chose to preflight: a file or folder to read, or an extension already read from disk
+ */
+export type PreflightTarget =
+  | {
+      type: 'vsix' | 'folder';
+      path: string;
+    }
+  | {
+      type: 'extension';
+      extension: ExtensionManifest;
     };
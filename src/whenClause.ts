@@ -0,0 +1,520 @@
+/**
+ * When clause parsing and satisfiability checks
+ */
+
+type WhenExpr =
+  | { type: 'true' }
+  | { type: 'false' }
+  | { type: 'has'; key: string }
+  | { type: 'not'; expr: WhenExpr }
+  | { type: 'and'; exprs: WhenExpr[] }
+  | { type: 'or'; exprs: WhenExpr[] }
+  | { type: 'equals'; key: string; value: string }
+  | { type: 'notEquals'; key: string; value: string }
+  | { type: 'regex'; key: string; source: string; regexp?: RegExp }
+  | { type: 'in'; key: string; container: string }
+  | { type: 'compare'; key: string; op: string; value: string };
+
+/**
+ * A single condition on one context key, possibly negated
+ */
+interface WhenLiteral {
+  key: string;
+  kind: 'truthy' | 'equals' | 'regex' | 'opaque';
+  negated: boolean;
+  value?: string;
+  regexp?: RegExp;
+  signature?: string;
+}
+
+type Token =
+  | { type: 'op'; value: string }
+  | { type: 'word'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'regex'; value: string };
+
+/** Upper bound on disjunctive normal form size before giving up */
+const MAX_DNF_TERMS = 256;
+
+/**
+ * Values that VS Code treats as falsy when compared with ==
+ */
+const FALSY_VALUES = new Set(['false', '', '0']);
+
+/**
+ * Focus context keys that can't be true at the same time,
+ * since only one widget holds keyboard focus
+ */
+const EXCLUSIVE_FOCUS_KEYS = new Set(['editorTextFocus', 'terminalFocus', 'listFocus']);
+
+/**
+ * Parses 'when' clauses and decides whether two of them can be true at the same time
+ */
+export class WhenClauseAnalyzer {
+  private cache = new Map<string, WhenLiteral[][] | undefined>();
+
+  /**
+   * Returns true if both clauses can be active in the same context
+   * Unparseable clauses are treated as possibly overlapping
+   */
+  public canOverlap(a?: string, b?: string): boolean {
+    const termsA = this.toDnf(a);
+    const termsB = this.toDnf(b);
+
+    if (!termsA || !termsB) {
+      return true;
+    }
+
+    for (const termA of termsA) {
+      for (const termB of termsB) {
+        if (this.isConsistent([...termA, ...termB])) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Returns true if both clauses describe the same context
+   * (both missing, or identical after canonicalization)
+   */
+  public isEquivalent(a?: string, b?: string): boolean {
+    const termsA = this.toDnf(a);
+    const termsB = this.toDnf(b);
+
+    if (!termsA || !termsB) {
+      return (a || '').replace(/\s+/g, '') === (b || '').replace(/\s+/g, '');
+    }
+
+    return this.canonicalize(termsA) === this.canonicalize(termsB);
+  }
+
+  /**
+   * Parses a clause into an expression tree
+   * Throws on syntax errors
+   */
+  private parse(clause: string): WhenExpr {
+    return new WhenClauseParser(clause).parse();
+  }
+
+  /**
+   * Converts a clause into a list of conjunctions (disjunctive normal form)
+   * Returns undefined when the clause can't be parsed or is too large
+   */
+  private toDnf(clause?: string): WhenLiteral[][] | undefined {
+    const source = (clause || '').trim();
+    if (!source) {
+      return [[]];
+    }
+
+    if (this.cache.has(source)) {
+      return this.cache.get(source);
+    }
+
+    let result: WhenLiteral[][] | undefined;
+    try {
+      result = this.expand(this.parse(source), false);
+      if (result) {
+        result = result.filter(term => this.isConsistent(term));
+      }
+    } catch {
+      result = undefined;
+    }
+
+    this.cache.set(source, result);
+    return result;
+  }
+
+  /**
+   * Expands an expression into DNF, pushing negations down to the literals
+   */
+  private expand(expr: WhenExpr, negated: boolean): WhenLiteral[][] | undefined {
+    switch (expr.type) {
+      case 'true':
+        return negated ? [] : [[]];
+      case 'false':
+        return negated ? [[]] : [];
+      case 'not':
+        return this.expand(expr.expr, !negated);
+      case 'has':
+        return [[{ key: expr.key, kind: 'truthy', negated }]];
+      case 'equals':
+        return [[{ key: expr.key, kind: 'equals', value: expr.value, negated }]];
+      case 'notEquals':
+        return [[{ key: expr.key, kind: 'equals', value: expr.value, negated: !negated }]];
+      case 'regex':
+        return [[{ key: expr.key, kind: 'regex', regexp: expr.regexp, signature: expr.source, negated }]];
+      case 'in':
+        return [[{ key: expr.key, kind: 'opaque', signature: `in ${expr.container}`, negated }]];
+      case 'compare':
+        return [[{ key: expr.key, kind: 'opaque', signature: `${expr.op} ${expr.value}`, negated }]];
+      case 'and':
+      case 'or': {
+        // De Morgan: a negated AND behaves like an OR of negations and vice versa
+        const isAnd = (expr.type === 'and') !== negated;
+        const parts: WhenLiteral[][][] = [];
+        for (const child of expr.exprs) {
+          const expanded = this.expand(child, negated);
+          if (!expanded) {
+            return undefined;
+          }
+          parts.push(expanded);
+        }
+
+        if (!isAnd) {
+          const union = parts.flat();
+          return union.length > MAX_DNF_TERMS ? undefined : union;
+        }
+
+        let product: WhenLiteral[][] = [[]];
+        for (const part of parts) {
+          const next: WhenLiteral[][] = [];
+          for (const left of product) {
+            for (const right of part) {
+              next.push([...left, ...right]);
+            }
+          }
+          if (next.length > MAX_DNF_TERMS) {
+            return undefined;
+          }
+          product = next;
+        }
+        return product;
+      }
+    }
+  }
+
+  /**
+   * Checks whether a conjunction of literals can be satisfied
+   */
+  private isConsistent(literals: WhenLiteral[]): boolean {
+    const byKey = new Map<string, WhenLiteral[]>();
+    for (const literal of literals) {
+      if (!byKey.has(literal.key)) {
+        byKey.set(literal.key, []);
+      }
+      byKey.get(literal.key)!.push(literal);
+    }
+
+    for (const keyLiterals of byKey.values()) {
+      if (!this.isKeyConsistent(keyLiterals)) {
+        return false;
+      }
+    }
+
+    const focused = new Set(
+      literals
+        .filter(l => l.kind === 'truthy' && !l.negated && EXCLUSIVE_FOCUS_KEYS.has(l.key))
+        .map(l => l.key)
+    );
+
+    return focused.size <= 1;
+  }
+
+  /**
+   * Checks the literals constraining a single context key
+   */
+  private isKeyConsistent(literals: WhenLiteral[]): boolean {
+    const mustBeTruthy = literals.some(l => l.kind === 'truthy' && !l.negated);
+    const mustBeFalsy = literals.some(l => l.kind === 'truthy' && l.negated);
+    if (mustBeTruthy && mustBeFalsy) {
+      return false;
+    }
+
+    const equalValues = new Set(
+      literals.filter(l => l.kind === 'equals' && !l.negated).map(l => l.value!)
+    );
+    if (equalValues.size > 1) {
+      return false;
+    }
+
+    const signatures = new Map<string, boolean>();
+    for (const literal of literals) {
+      if (literal.kind !== 'opaque' && literal.kind !== 'regex') {
+        continue;
+      }
+      const id = `${literal.kind}:${literal.signature}`;
+      if (signatures.has(id) && signatures.get(id) !== literal.negated) {
+        return false;
+      }
+      signatures.set(id, literal.negated);
+    }
+
+    if (equalValues.size === 0) {
+      return true;
+    }
+
+    // The key has a fixed value: every other literal must agree with it
+    const value = [...equalValues][0];
+    const isFalsyValue = FALSY_VALUES.has(value);
+
+    for (const literal of literals) {
+      if (literal.kind === 'truthy') {
+        if (literal.negated ? !isFalsyValue : isFalsyValue) {
+          return false;
+        }
+      } else if (literal.kind === 'equals' && literal.negated && literal.value === value) {
+        return false;
+      } else if (literal.kind === 'regex' && literal.regexp) {
+        literal.regexp.lastIndex = 0;
+        if (literal.regexp.test(value) === literal.negated) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Produces an order-independent string for a DNF
+   */
+  private canonicalize(terms: WhenLiteral[][]): string {
+    return terms
+      .map(term =>
+        Array.from(new Set(term.map(l => this.literalToString(l))))
+          .sort()
+          .join(' && ')
+      )
+      .sort()
+      .join(' || ');
+  }
+
+  private literalToString(literal: WhenLiteral): string {
+    const prefix = literal.negated ? '!' : '';
+    switch (literal.kind) {
+      case 'truthy':
+        return `${prefix}${literal.key}`;
+      case 'equals':
+        return `${literal.key} ${literal.negated ? '!=' : '=='} ${literal.value}`;
+      default:
+        return `${prefix}(${literal.key} ${literal.signature})`;
+    }
+  }
+}
+
+/**
+ * Recursive descent parser for VS Code 'when' clause syntax
+ */
+class WhenClauseParser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = this.tokenize(source);
+  }
+
+  public parse(): WhenExpr {
+    const expr = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected token "${this.tokens[this.position].value}" in when clause "${this.source}"`);
+    }
+    return expr;
+  }
+
+  private parseOr(): WhenExpr {
+    const exprs = [this.parseAnd()];
+    while (this.acceptOp('||')) {
+      exprs.push(this.parseAnd());
+    }
+    return exprs.length === 1 ? exprs[0] : { type: 'or', exprs };
+  }
+
+  private parseAnd(): WhenExpr {
+    const exprs = [this.parseUnary()];
+    while (this.acceptOp('&&')) {
+      exprs.push(this.parseUnary());
+    }
+    return exprs.length === 1 ? exprs[0] : { type: 'and', exprs };
+  }
+
+  private parseUnary(): WhenExpr {
+    if (this.acceptOp('!')) {
+      return { type: 'not', expr: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): WhenExpr {
+    if (this.acceptOp('(')) {
+      const expr = this.parseOr();
+      if (!this.acceptOp(')')) {
+        throw new Error(`Missing ")" in when clause "${this.source}"`);
+      }
+      return expr;
+    }
+
+    const token = this.next();
+    if (!token || token.type === 'op' || token.type === 'regex') {
+      throw new Error(`Expected context key in when clause "${this.source}"`);
+    }
+
+    const key = token.value;
+    if (token.type === 'word' && key === 'true') {
+      return { type: 'true' };
+    }
+    if (token.type === 'word' && key === 'false') {
+      return { type: 'false' };
+    }
+
+    const op = this.peek();
+    if (op?.type === 'op') {
+      switch (op.value) {
+        case '==':
+        case '===':
+          this.position++;
+          return { type: 'equals', key, value: this.parseValue() };
+        case '!=':
+        case '!==':
+          this.position++;
+          return { type: 'notEquals', key, value: this.parseValue() };
+        case '=~':
+          this.position++;
+          return this.parseRegex(key);
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+          this.position++;
+          return { type: 'compare', key, op: op.value, value: this.parseValue() };
+      }
+    }
+
+    if (op?.type === 'word' && op.value === 'in') {
+      this.position++;
+      return { type: 'in', key, container: this.parseValue() };
+    }
+
+    if (op?.type === 'word' && op.value === 'not' && this.tokens[this.position + 1]?.value === 'in') {
+      this.position += 2;
+      return { type: 'not', expr: { type: 'in', key, container: this.parseValue() } };
+    }
+
+    return { type: 'has', key };
+  }
+
+  private parseValue(): string {
+    const token = this.next();
+    if (!token || token.type === 'op' || token.type === 'regex') {
+      throw new Error(`Expected value in when clause "${this.source}"`);
+    }
+    return token.value;
+  }
+
+  private parseRegex(key: string): WhenExpr {
+    const token = this.next();
+    if (!token || token.type !== 'regex') {
+      throw new Error(`Expected regular expression in when clause "${this.source}"`);
+    }
+
+    const lastSlash = token.value.lastIndexOf('/');
+    const pattern = token.value.substring(1, lastSlash);
+    const flags = token.value.substring(lastSlash + 1).replace(/[^imsu]/g, '');
+
+    let regexp: RegExp | undefined;
+    try {
+      regexp = new RegExp(pattern, flags);
+    } catch {
+      regexp = undefined;
+    }
+
+    return { type: 'regex', key, source: token.value, regexp };
+  }
+
+  private acceptOp(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'op' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  /**
+   * Splits a clause into operators, words, quoted strings and regex literals
+   */
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    const operators = ['===', '!==', '==', '!=', '=~', '&&', '||', '<=', '>=', '<', '>', '!', '(', ')'];
+    let i = 0;
+
+    while (i < source.length) {
+      const ch = source[i];
+
+      if (/\s/.test(ch)) {
+        i++;
+        continue;
+      }
+
+      // A regex literal may only follow the =~ operator
+      const previous = tokens[tokens.length - 1];
+      if (ch === '/' && previous?.type === 'op' && previous.value === '=~') {
+        let j = i + 1;
+        let inClass = false;
+        while (j < source.length) {
+          if (source[j] === '\\') {
+            j += 2;
+            continue;
+          }
+          if (source[j] === '[') {
+            inClass = true;
+          } else if (source[j] === ']') {
+            inClass = false;
+          } else if (source[j] === '/' && !inClass) {
+            break;
+          }
+          j++;
+        }
+        if (j >= source.length) {
+          throw new Error(`Unterminated regular expression in when clause "${source}"`);
+        }
+        j++;
+        while (j < source.length && /[a-z]/i.test(source[j])) {
+          j++;
+        }
+        tokens.push({ type: 'regex', value: source.substring(i, j) });
+        i = j;
+        continue;
+      }
+
+      const operator = operators.find(op => source.startsWith(op, i));
+      if (operator) {
+        tokens.push({ type: 'op', value: operator });
+        i += operator.length;
+        continue;
+      }
+
+      if (ch === '\'' || ch === '"') {
+        const end = source.indexOf(ch, i + 1);
+        if (end < 0) {
+          throw new Error(`Unterminated string in when clause "${source}"`);
+        }
+        tokens.push({ type: 'string', value: source.substring(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+
+      let j = i;
+      while (j < source.length && !/[\s()!&|=<>]/.test(source[j])) {
+        j++;
+      }
+      if (j === i) {
+        throw new Error(`Unexpected character "${ch}" in when clause "${source}"`);
+      }
+      tokens.push({ type: 'word', value: source.substring(i, j) });
+      i = j;
+    }
+
+    return tokens;
+  }
+}